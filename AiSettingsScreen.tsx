@@ -0,0 +1,376 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  SafeAreaView,
+  StatusBar,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import {
+  AI_PROVIDERS,
+  AiSettings,
+  DEFAULT_AI_SETTINGS,
+  MAX_CONCURRENCY,
+  createAiProvider,
+  getAiSettings,
+  getProviderInfo,
+  saveAiSettings,
+  validateAiSettings,
+} from '../utils/aiProviders';
+import { REMINDER_LANGUAGES, ReminderLanguage } from '../utils/reminderPrompt';
+
+type Props = {
+  username: string;
+  onBack: () => void;
+};
+
+const AiSettingsScreen: React.FC<Props> = ({ username, onBack }) => {
+  const [settings, setSettings] = useState<AiSettings>(DEFAULT_AI_SETTINGS);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isTesting, setIsTesting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setSettings(await getAiSettings(username));
+      } catch (err) {
+        console.error('Error loading AI settings:', err);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    load();
+  }, [username]);
+
+  const info = getProviderInfo(settings.provider);
+
+  const update = (changes: Partial<AiSettings>) => {
+    setSettings({ ...settings, ...changes });
+    setError('');
+  };
+
+  const handleTest = async () => {
+    const validationError = validateAiSettings(settings);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    setIsTesting(true);
+    try {
+      Alert.alert('Connected', await createAiProvider(settings).ping());
+    } catch (err: any) {
+      console.error('Error testing AI provider:', err);
+      setError(err?.message || 'The provider did not answer');
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const validationError = validateAiSettings(settings);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await saveAiSettings(username, settings);
+      Alert.alert('Saved', `Reminders will be generated with ${info.label}.`);
+      onBack();
+    } catch (err) {
+      console.error('Error saving AI settings:', err);
+      setError('Failed to save the settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" />
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onBack} style={styles.backButton}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>AI Provider</Text>
+        <View style={{ width: 60 }} />
+      </View>
+
+      {isLoading ? (
+        <ActivityIndicator color="#22c55e" style={{ marginTop: 24 }} />
+      ) : (
+        <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Provider</Text>
+            {AI_PROVIDERS.map(provider => (
+              <TouchableOpacity
+                key={provider.id}
+                style={[styles.providerRow, settings.provider === provider.id && styles.providerRowActive]}
+                onPress={() => update({ provider: provider.id, model: '' })}
+                activeOpacity={0.8}
+              >
+                <Text style={[styles.providerText, settings.provider === provider.id && styles.providerTextActive]}>
+                  {provider.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {settings.provider === 'server' ? (
+            <View style={styles.card}>
+              <Text style={styles.hint}>
+                Reminders are generated by the Revisory backend, which keeps the Gemini API key. Each account can
+                generate a limited number of reminders per hour.
+              </Text>
+            </View>
+          ) : (
+            <View style={styles.card}>
+              {info.needsBaseUrl && (
+                <>
+                  <Text style={styles.label}>Server URL</Text>
+                  <TextInput
+                    value={settings.baseUrl}
+                    onChangeText={(value) => update({ baseUrl: value })}
+                    placeholder="http://192.168.1.10:11434/v1"
+                    placeholderTextColor="#64748b"
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    keyboardType="url"
+                    style={styles.input}
+                  />
+                  <Text style={styles.hint}>
+                    Any server with the OpenAI chat completions API, e.g. Ollama or llama.cpp. Use your computer's LAN IP, not localhost.
+                  </Text>
+                </>
+              )}
+
+              <Text style={styles.label}>Model</Text>
+              <TextInput
+                value={settings.model}
+                onChangeText={(value) => update({ model: value })}
+                placeholder={info.defaultModel}
+                placeholderTextColor="#64748b"
+                autoCapitalize="none"
+                autoCorrect={false}
+                style={styles.input}
+              />
+
+              <Text style={styles.label}>API key{info.needsApiKey ? '' : ' (optional)'}</Text>
+              <TextInput
+                value={settings.apiKey}
+                onChangeText={(value) => update({ apiKey: value })}
+                placeholder={info.needsApiKey ? 'Stored on this device only' : 'Only if your server asks for one'}
+                placeholderTextColor="#64748b"
+                autoCapitalize="none"
+                autoCorrect={false}
+                secureTextEntry
+                style={styles.input}
+              />
+            </View>
+          )}
+
+          <View style={styles.card}>
+            <Text style={styles.label}>Subjects generated at once</Text>
+            <View style={styles.concurrencyRow}>
+              {Array.from({ length: MAX_CONCURRENCY }, (_, index) => index + 1).map(count => (
+                <TouchableOpacity
+                  key={count}
+                  style={[styles.concurrencyButton, settings.concurrency === count && styles.providerRowActive]}
+                  onPress={() => update({ concurrency: count })}
+                  activeOpacity={0.8}
+                >
+                  <Text style={[styles.providerText, settings.concurrency === count && styles.providerTextActive]}>
+                    {count}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.hint}>
+              The first subject opens as soon as it's ready. Use 1 for a free-tier key or a slow self-hosted model.
+            </Text>
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.label}>Reminder language</Text>
+            <View style={styles.concurrencyRow}>
+              {(Object.keys(REMINDER_LANGUAGES) as ReminderLanguage[]).map(language => (
+                <TouchableOpacity
+                  key={language}
+                  style={[styles.concurrencyButton, settings.language === language && styles.providerRowActive]}
+                  onPress={() => update({ language })}
+                  activeOpacity={0.8}
+                >
+                  <Text style={[styles.providerText, settings.language === language && styles.providerTextActive]}>
+                    {REMINDER_LANGUAGES[language].nativeName}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.hint}>
+              Theory and questions are written in this language. A single reminder can be translated from its first page.
+            </Text>
+          </View>
+
+          {!!error && <Text style={styles.errorText}>{error}</Text>}
+
+          <TouchableOpacity
+            style={[styles.testButton, isTesting && { opacity: 0.6 }]}
+            onPress={handleTest}
+            disabled={isTesting}
+            activeOpacity={0.8}
+          >
+            {isTesting ? <ActivityIndicator color="#60a5fa" /> : <Text style={styles.testButtonText}>Test connection</Text>}
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.saveButton, isSaving && { opacity: 0.6 }]}
+            onPress={handleSave}
+            disabled={isSaving}
+            activeOpacity={0.8}
+          >
+            {isSaving ? <ActivityIndicator color="#052e16" /> : <Text style={styles.saveButtonText}>Save</Text>}
+          </TouchableOpacity>
+
+          <View style={{ height: 40 }} />
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1e1e1e',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#334155',
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  backButtonText: {
+    color: '#22c55e',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  headerTitle: {
+    color: '#f8fafc',
+    fontSize: 20,
+    fontWeight: '700',
+    flex: 1,
+    textAlign: 'center',
+  },
+  scrollContent: {
+    padding: 16,
+    gap: 12,
+  },
+  card: {
+    backgroundColor: '#2a2a2a',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#334155',
+    gap: 10,
+  },
+  cardTitle: {
+    color: '#f8fafc',
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  providerRow: {
+    paddingVertical: 12,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#334155',
+  },
+  concurrencyRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  concurrencyButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#334155',
+    alignItems: 'center',
+  },
+  providerRowActive: {
+    backgroundColor: '#22c55e',
+    borderColor: '#22c55e',
+  },
+  providerText: {
+    color: '#cbd5e1',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  providerTextActive: {
+    color: '#052e16',
+  },
+  label: {
+    color: '#e2e8f0',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  hint: {
+    color: '#94a3b8',
+    fontSize: 12,
+  },
+  input: {
+    backgroundColor: '#1e1e1e',
+    borderRadius: 10,
+    height: 44,
+    paddingHorizontal: 12,
+    color: '#e2e8f0',
+    borderWidth: 1,
+    borderColor: '#334155',
+  },
+  errorText: {
+    color: '#ef4444',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  testButton: {
+    borderRadius: 12,
+    height: 48,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#60a5fa',
+  },
+  testButtonText: {
+    color: '#60a5fa',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  saveButton: {
+    backgroundColor: '#22c55e',
+    borderRadius: 12,
+    height: 48,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: '#052e16',
+    fontSize: 16,
+    fontWeight: '800',
+  },
+});
+
+export default AiSettingsScreen;
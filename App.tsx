@@ -1,12 +1,28 @@
 import React, { useEffect, useState } from 'react';
-import { View, ActivityIndicator, StyleSheet, SafeAreaView, TouchableOpacity, Text } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { View, ActivityIndicator, StyleSheet, SafeAreaView, TouchableOpacity, Text, Alert } from 'react-native';
 import HomePage from './screens/HomePage';
 import LoginScreen from './screens/LoginScreen';
 import ReminderScreen from './screens/ReminderScreen';
 import CoursesScreen from './screens/CoursesScreen';
 import CourseRoadmapScreen from './screens/CourseRoadmapScreen';
 import ProfileScreen from './screens/ProfileScreen';
-import { getOrCreateUser, getCurrentUser, setCurrentUser, logout, UserStats, getLessons, Lesson } from './utils/database';
+import EklaseLoginScreen from './screens/EklaseLoginScreen';
+import ImportLessonsScreen from './screens/ImportLessonsScreen';
+import LessonEditorScreen from './screens/LessonEditorScreen';
+import SubjectFiltersScreen from './screens/SubjectFiltersScreen';
+import HomeworkHistoryScreen from './screens/HomeworkHistoryScreen';
+import NotificationSettingsScreen from './screens/NotificationSettingsScreen';
+import AiSettingsScreen from './screens/AiSettingsScreen';
+import { getOrCreateUser, getCurrentUser, setCurrentUser, logout, UserStats, getLessons, saveLessons, Lesson } from './utils/database';
+import { hasAccount } from './utils/auth';
+import { importEklaseLessons, mergeImportedLessons, getEklaseSession, logoutEklase, needsEklaseReconnect } from './utils/eklase';
+import { startDiarySync } from './utils/diarySync';
+import { getToday, toIsoDate } from './utils/schoolCalendar';
+import { getDeletedLessonKeys } from './utils/lessons';
+import { getFilterRules, isSubjectExcluded } from './utils/subjectFilters';
+import { refreshStreak } from './utils/streak';
+import { cancelReminderNotifications, getReminderNotificationData, scheduleReminderNotifications } from './utils/notifications';
 
 type Screen = 'daily' | 'courses' | 'roadmap' | 'profile';
 
@@ -26,19 +42,102 @@ const App: React.FC = () => {
     courseColor: string;
   } | null>(null);
   const [showProfile, setShowProfile] = useState(false);
+  const [showEklaseLogin, setShowEklaseLogin] = useState(false);
+  const [isImportingEklase, setIsImportingEklase] = useState(false);
+  const [eklaseError, setEklaseError] = useState<{ text: string; details?: string } | null>(null);
+  const [showImportLessons, setShowImportLessons] = useState(false);
+  const [showLessonEditor, setShowLessonEditor] = useState(false);
+  const [showSubjectFilters, setShowSubjectFilters] = useState(false);
+  const [showHomeworkHistory, setShowHomeworkHistory] = useState(false);
+  const [showNotificationSettings, setShowNotificationSettings] = useState(false);
+  const [showAiSettings, setShowAiSettings] = useState(false);
+
+  const [eklaseConnected, setEklaseConnected] = useState(false);
+  const [eklaseNeedsReconnect, setEklaseNeedsReconnect] = useState(false);
+  // The tapped notification, whether it launched the app or brought it back from the background
+  const lastNotificationResponse = Notifications.useLastNotificationResponse();
 
   useEffect(() => {
     checkAuthStatus();
   }, []);
 
+  // Reschedule reminder notifications on launch and whenever stats (and with them lessons) reload
+  useEffect(() => {
+    if (!isAuthenticated || !username) return;
+    scheduleReminderNotifications(username);
+  }, [isAuthenticated, username, userStats]);
+
+  // Open the reminder for a tapped notification's subjects once its user is signed in
+  useEffect(() => {
+    if (!lastNotificationResponse || !isAuthenticated || !username) return;
+    const data = getReminderNotificationData(lastNotificationResponse);
+    if (!data) return;
+    Notifications.clearLastNotificationResponse();
+    if (data.username.toLowerCase() !== username.toLowerCase()) return;
+    // Tapped after the school day it was about: its subjects are no longer the next ones
+    if (data.schoolDate && data.schoolDate < toIsoDate(getToday())) return;
+
+    setShowProfile(false);
+    setShowEklaseLogin(false);
+    setShowImportLessons(false);
+    setShowLessonEditor(false);
+    setShowSubjectFilters(false);
+    setShowHomeworkHistory(false);
+    setShowNotificationSettings(false);
+    setShowAiSettings(false);
+    setRoadmapCourse(null);
+    setCurrentScreen('daily');
+    handleShowReminder(data.subjects);
+  }, [lastNotificationResponse, isAuthenticated, username]);
+
+  // Keep the E-klase diary in sync while signed in
+  useEffect(() => {
+    if (!isAuthenticated || !username) return;
+    let stopSync: (() => void) | null = null;
+    let cancelled = false;
+
+    Promise.all([getEklaseSession(username), needsEklaseReconnect(username)]).then(([sessionId, needsReconnect]) => {
+      if (cancelled) return;
+      setEklaseConnected(!!sessionId);
+      setEklaseNeedsReconnect(needsReconnect);
+      if (!sessionId) return;
+      stopSync = startDiarySync(username, async (result) => {
+        if (result.needsReconnect) {
+          // Stops this sync through the effect; the home page asks the user to reconnect
+          setEklaseNeedsReconnect(true);
+          setEklaseConnected(false);
+          return;
+        }
+        if (!result.success) {
+          console.warn('Diary sync failed:', result.message);
+          return;
+        }
+        if (result.changes.length > 0) {
+          const updatedStats = await getOrCreateUser(username);
+          setUserStats(updatedStats);
+        }
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      stopSync?.();
+    };
+  }, [isAuthenticated, username, eklaseConnected]);
+
   const checkAuthStatus = async () => {
     try {
       const currentUser = await getCurrentUser();
-      if (currentUser) {
+      // Sessions from before local accounts existed have to sign up first
+      if (currentUser && !(await hasAccount(currentUser))) {
+        await logout();
+      } else if (currentUser) {
         // User was previously logged in
         // getOrCreateUser will normalize the username
         const stats = await getOrCreateUser(currentUser);
-        setUserStats(stats);
+        // Continue or reset the streak for the days since the last launch
+        const streak = await refreshStreak(stats.userName);
+        setUserStats({ ...stats, dailyStreak: streak.current });
         setUsername(stats.userName); // Use normalized username from stats
         setIsAuthenticated(true);
       }
@@ -56,7 +155,8 @@ const App: React.FC = () => {
       // This will normalize the username (capitalize first letter)
       const stats = await getOrCreateUser(loggedInUsername);
       await setCurrentUser(stats.userName); // Use normalized username from stats
-      setUserStats(stats);
+      const streak = await refreshStreak(stats.userName);
+      setUserStats({ ...stats, dailyStreak: streak.current });
       setUsername(stats.userName); // Use normalized username
       setIsAuthenticated(true);
     } catch (error) {
@@ -67,11 +167,53 @@ const App: React.FC = () => {
   };
 
   const handleLogout = async () => {
+    // Reminders belong to the signed-in user
+    await cancelReminderNotifications();
+    if (username) {
+      await logoutEklase(username).catch(error => console.error('Error signing out of E-klase:', error));
+    }
     await logout();
     setIsAuthenticated(false);
     setUserStats(null);
     setUsername('');
     setShowReminder(false);
+    setShowEklaseLogin(false);
+    setShowImportLessons(false);
+    setShowLessonEditor(false);
+    setShowSubjectFilters(false);
+    setShowHomeworkHistory(false);
+    setShowNotificationSettings(false);
+    setShowAiSettings(false);
+    setEklaseConnected(false);
+    setEklaseNeedsReconnect(false);
+  };
+
+  const handleEklaseLogin = async (credentials: { username: string; password: string }) => {
+    if (!username) return;
+    setIsImportingEklase(true);
+    setEklaseError(null);
+    try {
+      const result = await importEklaseLessons(username, credentials);
+      if (!result.success || !result.lessons) {
+        setEklaseError({ text: result.message || 'E-klase import failed', details: result.details });
+        return;
+      }
+
+      const existingLessons = await getLessons(username);
+      const deletedKeys = await getDeletedLessonKeys(username);
+      await saveLessons(username, mergeImportedLessons(existingLessons, result.lessons, result.dates, deletedKeys));
+      const updatedStats = await getOrCreateUser(username);
+      setUserStats(updatedStats);
+      setEklaseConnected(true);
+      setEklaseNeedsReconnect(false);
+      setShowEklaseLogin(false);
+      Alert.alert('E-klase', `Imported ${result.lessons.length} lessons from your diary.`);
+    } catch (error: any) {
+      console.error('Error importing E-klase diary:', error);
+      setEklaseError({ text: 'Failed to save imported lessons', details: error?.message || String(error) });
+    } finally {
+      setIsImportingEklase(false);
+    }
   };
 
   const handleShowReminder = async (subjects: string[]) => {
@@ -92,8 +234,9 @@ const App: React.FC = () => {
           }
         }
       }
+      const rules = await getFilterRules(username);
       setLessons(allLessons);
-      setSelectedSubjects(subjects);
+      setSelectedSubjects(subjects.filter(subject => !isSubjectExcluded(subject, rules)));
       setShowReminder(true);
     } catch (error) {
       console.error('Error loading lessons for reminder:', error);
@@ -127,6 +270,74 @@ const App: React.FC = () => {
     return <LoginScreen onLogin={handleLogin} isLoading={isLoading} />;
   }
 
+  if (showEklaseLogin) {
+    return (
+      <EklaseLoginScreen
+        onLogin={handleEklaseLogin}
+        isLoading={isImportingEklase}
+        errorText={eklaseError?.text}
+        errorDetails={eklaseError?.details}
+        onCancel={() => {
+          setShowEklaseLogin(false);
+          setEklaseError(null);
+        }}
+      />
+    );
+  }
+
+  if (showImportLessons) {
+    return (
+      <ImportLessonsScreen
+        username={username}
+        onBack={() => setShowImportLessons(false)}
+        onImported={async () => {
+          setShowImportLessons(false);
+          const updatedStats = await getOrCreateUser(username);
+          setUserStats(updatedStats);
+        }}
+      />
+    );
+  }
+
+  if (showLessonEditor) {
+    return (
+      <LessonEditorScreen
+        username={username}
+        onBack={() => setShowLessonEditor(false)}
+        onLessonsChanged={async () => {
+          const updatedStats = await getOrCreateUser(username);
+          setUserStats(updatedStats);
+        }}
+      />
+    );
+  }
+
+  if (showSubjectFilters) {
+    return (
+      <SubjectFiltersScreen
+        username={username}
+        onBack={() => setShowSubjectFilters(false)}
+        onSaved={async () => {
+          setShowSubjectFilters(false);
+          const updatedStats = await getOrCreateUser(username);
+          setUserStats(updatedStats);
+        }}
+      />
+    );
+  }
+
+  if (showHomeworkHistory) {
+    return <HomeworkHistoryScreen username={username} onBack={() => setShowHomeworkHistory(false)} />;
+  }
+
+  if (showNotificationSettings) {
+    return <NotificationSettingsScreen username={username} onBack={() => setShowNotificationSettings(false)} />;
+  }
+
+  if (showAiSettings) {
+    return <AiSettingsScreen username={username} onBack={() => setShowAiSettings(false)} />;
+  }
+
   if (showReminder) {
     return (
       <ReminderScreen
@@ -173,6 +384,21 @@ const App: React.FC = () => {
           await handleLogout();
           setShowProfile(false);
         }}
+        onImportEklase={() => {
+          setEklaseError(null);
+          setShowEklaseLogin(true);
+        }}
+        eklaseNeedsReconnect={eklaseNeedsReconnect}
+        onImportTimetable={() => setShowImportLessons(true)}
+        onEditLessons={() => setShowLessonEditor(true)}
+        onEditFilters={() => setShowSubjectFilters(true)}
+        onEditNotifications={() => setShowNotificationSettings(true)}
+        onEditAiProvider={() => setShowAiSettings(true)}
+        onCoinsUpdated={(coins) => {
+          if (userStats) {
+            setUserStats({ ...userStats, knowledgeCoins: coins });
+          }
+        }}
       />
     );
   }
@@ -193,6 +419,11 @@ const App: React.FC = () => {
               setShowProfile(true);
               setCurrentScreen('profile');
             }}
+            onShowHomeworkHistory={() => setShowHomeworkHistory(true)}
+            onReconnectEklase={eklaseNeedsReconnect ? () => {
+              setEklaseError(null);
+              setShowEklaseLogin(true);
+            } : undefined}
           />
         )}
         {currentScreen === 'courses' && (
@@ -6,9 +6,10 @@ type Props = {
   isLoading?: boolean;
   errorText?: string;
   errorDetails?: string;
+  onCancel?: () => void;
 };
 
-const EklaseLoginScreen: React.FC<Props> = ({ onLogin, isLoading, errorText, errorDetails }) => {
+const EklaseLoginScreen: React.FC<Props> = ({ onLogin, isLoading, errorText, errorDetails, onCancel }) => {
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
@@ -63,6 +64,11 @@ const EklaseLoginScreen: React.FC<Props> = ({ onLogin, isLoading, errorText, err
       >
         {isLoading ? <ActivityIndicator color="#052e16" /> : <Text style={styles.buttonText}>Log In</Text>}
       </TouchableOpacity>
+      {!!onCancel && (
+        <TouchableOpacity onPress={onCancel} disabled={!!isLoading}>
+          <Text style={styles.cancelText}>Cancel</Text>
+        </TouchableOpacity>
+      )}
     </View>
   );
 };
@@ -106,6 +112,11 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '800',
   },
+  cancelText: {
+    color: '#94a3b8',
+    fontSize: 14,
+    marginTop: 14,
+  },
   moreLink: {
     color: '#60a5fa',
     fontSize: 12,
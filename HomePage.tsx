@@ -2,6 +2,24 @@ import React, { useState, useEffect } from 'react';
 import { View, Text, ScrollView, StyleSheet, TouchableOpacity, StatusBar, SafeAreaView, Modal, TextInput, Alert, Platform, Image } from 'react-native';
 import * as Notifications from 'expo-notifications';
 import { UserStats, updateUserStats, logout, getLessons, Lesson, getCompletedDailyTasks, clearUserData } from '../utils/database';
+import { getHomeworkChangesForDate, HomeworkChange } from '../utils/diarySync';
+import { filterLessons, getFilterRules } from '../utils/subjectFilters';
+import { getSubjectMastery, SubjectMastery } from '../utils/mastery';
+import { daysOverdue, getHomeworkCompletions, getHomeworkItems, getOverdueHomework, HomeworkItem, setHomeworkDone } from '../utils/homework';
+import {
+  describeSchoolDay,
+  fixedClock,
+  getNextSchoolDate,
+  getHolidayCalendarEnd,
+  getSchoolHolidays,
+  getToday,
+  isClockFaked,
+  isHolidayCalendarOutdated,
+  parseIsoDate,
+  resetClock,
+  setClock,
+  toIsoDate,
+} from '../utils/schoolCalendar';
 
 type Metric = {
   label: string;
@@ -17,17 +35,20 @@ type Props = {
   onShowReminder?: (subjects: string[]) => void;
   onUserStatsUpdated?: (stats: UserStats) => void;
   onShowProfile?: () => void;
+  onShowHomeworkHistory?: () => void;
+  // Only passed while the E-klase session has expired
+  onReconnectEklase?: () => void;
 };
 
 const getGreeting = (): string => {
-  const hour = new Date().getHours();
+  const hour = getToday().getHours();
   if (hour < 12) return 'Good Morning';
   if (hour < 18) return 'Good Afternoon';
   return 'Good Evening';
 };
 
 
-const HomePage: React.FC<Props> = ({ userStats, username, onLogout, onShowReminder, onUserStatsUpdated, onShowProfile }) => {
+const HomePage: React.FC<Props> = ({ userStats, username, onLogout, onShowReminder, onUserStatsUpdated, onShowProfile, onShowHomeworkHistory, onReconnectEklase }) => {
   const [devPromptVisible, setDevPromptVisible] = useState(false);
   const [devPassword, setDevPassword] = useState('');
   const [devUnlocked, setDevUnlocked] = useState(false);
@@ -36,6 +57,15 @@ const HomePage: React.FC<Props> = ({ userStats, username, onLogout, onShowRemind
   const [selectedSubjects, setSelectedSubjects] = useState<Set<string>>(new Set());
   const [completedTasks, setCompletedTasks] = useState<string[]>([]);
   const [notificationPermission, setNotificationPermission] = useState<boolean>(false);
+  const [homeworkChanges, setHomeworkChanges] = useState<Map<string, HomeworkChange>>(new Map());
+  const [nextSchoolDayLabel, setNextSchoolDayLabel] = useState('tomorrow');
+  const [fakeToday, setFakeToday] = useState('');
+  const [clockVersion, setClockVersion] = useState(0);
+  const [nextSchoolDate, setNextSchoolDate] = useState('');
+  // Last day of the holiday calendar once today is past it
+  const [outdatedCalendarEnd, setOutdatedCalendarEnd] = useState<string | null>(null);
+  const [homeworkItems, setHomeworkItems] = useState<HomeworkItem[]>([]);
+  const [subjectMastery, setSubjectMastery] = useState<SubjectMastery[]>([]);
 
   // Configure notification handler
   useEffect(() => {
@@ -57,13 +87,6 @@ const HomePage: React.FC<Props> = ({ userStats, username, onLogout, onShowRemind
     requestPermissions();
   }, []);
 
-  // Get tomorrow's date in YYYY-MM-DD format
-  // For demo purposes: Assume today is Tuesday (Nov 4, 2025), so tomorrow is Wednesday (Nov 5, 2025)
-  const getTomorrowDate = (): string => {
-    // Hardcoded for demo: Wednesday, November 5, 2025
-    return '2025-11-05';
-  };
-
   // Load tomorrow's lessons
   useEffect(() => {
     const loadTomorrowLessons = async () => {
@@ -94,17 +117,23 @@ const HomePage: React.FC<Props> = ({ userStats, username, onLogout, onShowRemind
           }
         }
         
-        const tomorrow = getTomorrowDate(); // '2025-11-05' for Wednesday
+        // Next school day: Friday shows Monday, holidays are skipped
+        const tomorrow = await getNextSchoolDate(username);
+        setNextSchoolDayLabel(describeSchoolDay(parseIsoDate(tomorrow)));
+        const holidays = await getSchoolHolidays(username);
+        setOutdatedCalendarEnd(isHolidayCalendarOutdated(holidays) ? getHolidayCalendarEnd(holidays) : null);
         
-        // Filter lessons for tomorrow, exclude "Projekta darbs", and only include lessons with homework
-        const filtered = lessons.filter((lesson: Lesson) => {
-          if (!lesson.date || lesson.date !== tomorrow) return false;
-          if (!lesson.homework || lesson.homework.trim().length === 0) return false;
-          if (lesson.subject.toLowerCase().includes('projekta darbs')) return false;
-          return true;
-        });
+        // Filter lessons for tomorrow with the user's subject rules (excluded subjects, homework requirements)
+        const rules = await getFilterRules(username);
+        const filtered = filterLessons(
+          lessons.filter((lesson: Lesson) => lesson.date === tomorrow),
+          rules
+        );
         
         setTomorrowLessons(filtered);
+        setHomeworkChanges(await getHomeworkChangesForDate(username, tomorrow));
+        setNextSchoolDate(tomorrow);
+        setHomeworkItems(getHomeworkItems(lessons, await getHomeworkCompletions(username), rules));
       } catch (error) {
         console.error('Error loading tomorrow lessons:', error);
         setTomorrowLessons([]);
@@ -112,7 +141,13 @@ const HomePage: React.FC<Props> = ({ userStats, username, onLogout, onShowRemind
     };
 
     loadTomorrowLessons();
-  }, [username, userStats?.lessons]);
+  }, [username, userStats?.lessons, clockVersion]);
+
+  // Load mastery per subject (changes after every reminder session)
+  useEffect(() => {
+    if (!username) return;
+    getSubjectMastery(username).then(setSubjectMastery);
+  }, [username, userStats]);
 
   // Load completed daily tasks
   useEffect(() => {
@@ -149,6 +184,44 @@ const HomePage: React.FC<Props> = ({ userStats, username, onLogout, onShowRemind
   const progressPercent = totalTasks > 0 ? completedCount / totalTasks : 0;
   const isAllCompleted = totalTasks > 0 && completedCount >= totalTasks;
 
+  const upcomingHomework = homeworkItems.filter(item => item.date === nextSchoolDate);
+  const overdueHomework = getOverdueHomework(homeworkItems);
+
+  const toggleHomeworkDone = async (item: HomeworkItem) => {
+    const done = !item.completedAt;
+    // Update right away, the list is re-read on the next load anyway
+    setHomeworkItems(items =>
+      items.map(other => (other.key === item.key ? { ...other, completedAt: done ? getToday().toISOString() : undefined } : other))
+    );
+    try {
+      await setHomeworkDone(username, item, done);
+    } catch (error) {
+      console.error('Error saving homework completion:', error);
+    }
+  };
+
+  const renderHomeworkRow = (item: HomeworkItem, showDue: boolean) => (
+    <TouchableOpacity
+      key={item.key}
+      style={styles.homeworkRow}
+      onPress={() => toggleHomeworkDone(item)}
+      activeOpacity={0.7}
+    >
+      <View style={[styles.homeworkCheckbox, item.completedAt && styles.homeworkCheckboxDone]}>
+        {item.completedAt && <Text style={styles.homeworkCheckmark}>✓</Text>}
+      </View>
+      <View style={{ flex: 1 }}>
+        <Text style={[styles.homeworkSubject, item.completedAt && styles.homeworkDoneText]}>
+          {item.subject}
+          {showDue && <Text style={styles.homeworkOverdue}>  {daysOverdue(item)}d overdue</Text>}
+        </Text>
+        <Text style={[styles.homeworkText, item.completedAt && styles.homeworkDoneText]} numberOfLines={3}>
+          {item.homework}
+        </Text>
+      </View>
+    </TouchableOpacity>
+  );
+
   // Toggle subject selection
   const toggleSubjectSelection = (subject: string) => {
     const newSelected = new Set(selectedSubjects);
@@ -197,7 +270,8 @@ const HomePage: React.FC<Props> = ({ userStats, username, onLogout, onShowRemind
     { label: 'Knowledge Coins', value: (currentStats?.knowledgeCoins || 0).toLocaleString(), color: '#f59e0b', icon: '💰' },
   ];
 
-  const mathProgressPercent = 0.75;
+  const weakestSubject = subjectMastery[0];
+  const strongestSubject = subjectMastery.length > 1 ? subjectMastery[subjectMastery.length - 1] : undefined;
 
   return (
     <SafeAreaView style={styles.safeArea}>
@@ -250,6 +324,24 @@ const HomePage: React.FC<Props> = ({ userStats, username, onLogout, onShowRemind
           {getGreeting()}, {userName}! Time to study.
         </Text>
 
+        {onReconnectEklase && (
+          <TouchableOpacity activeOpacity={0.9} style={styles.warningCard} onPress={onReconnectEklase}>
+            <Text style={styles.warningTitle}>🔄 Reconnect E-klase</Text>
+            <Text style={styles.warningDetail}>
+              Your E-klase session ended, so homework is no longer synced. Sign in again to resume.
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        {outdatedCalendarEnd && (
+          <View style={styles.warningCard}>
+            <Text style={styles.warningTitle}>📅 School holidays out of date</Text>
+            <Text style={styles.warningDetail}>
+              The holiday calendar ends on {outdatedCalendarEnd}, so breaks after it are treated as school days. Update the app to get this school year's holidays.
+            </Text>
+          </View>
+        )}
+
         <TouchableOpacity activeOpacity={0.9} style={styles.urgentCard}>
           <View style={styles.urgentHeaderRow}>
             <Text style={styles.urgentSubject}>Daily tasks</Text>
@@ -285,12 +377,28 @@ const HomePage: React.FC<Props> = ({ userStats, username, onLogout, onShowRemind
           )}
           
           {(!tomorrowLessons.length || totalTasks === 0) && (
-            <>
-              <View style={styles.progressBarBg}>
-                <View style={[styles.progressFill, { width: `${mathProgressPercent * 100}%` }]} />
-              </View>
-              <Text style={styles.progressLabel}>Mastery 75%</Text>
-            </>
+            weakestSubject ? (
+              <>
+                {strongestSubject && (
+                  <>
+                    <View style={styles.progressBarBg}>
+                      <View style={[styles.progressFill, { width: `${strongestSubject.mastery * 100}%` }]} />
+                    </View>
+                    <Text style={styles.progressLabel}>
+                      💪 {strongestSubject.subject}: mastery {Math.round(strongestSubject.mastery * 100)}%
+                    </Text>
+                  </>
+                )}
+                <View style={[styles.progressBarBg, strongestSubject && { marginTop: 10 }]}>
+                  <View style={[styles.progressFill, { width: `${weakestSubject.mastery * 100}%` }]} />
+                </View>
+                <Text style={styles.progressLabel}>
+                  📉 {weakestSubject.subject}: mastery {Math.round(weakestSubject.mastery * 100)}%{strongestSubject ? ' – practise this one' : ''}
+                </Text>
+              </>
+            ) : (
+              <Text style={styles.progressLabel}>Answer reminder questions to see your mastery per subject.</Text>
+            )
           )}
         </TouchableOpacity>
 
@@ -301,10 +409,11 @@ const HomePage: React.FC<Props> = ({ userStats, username, onLogout, onShowRemind
             
             {tomorrowLessons.length > 0 ? (
               <View style={styles.subjectsContainer}>
-                <Text style={styles.subjectsLabel}>For tomorrow (tap to select):</Text>
+                <Text style={styles.subjectsLabel}>For {nextSchoolDayLabel} (tap to select):</Text>
                 {uniqueSubjects.map((subject, index) => {
                   const isSelected = selectedSubjects.has(subject);
                   const isCompleted = completedTasks.includes(subject);
+                  const homeworkChange = homeworkChanges.get(subject);
                   return (
                     <TouchableOpacity
                       key={index}
@@ -323,6 +432,13 @@ const HomePage: React.FC<Props> = ({ userStats, username, onLogout, onShowRemind
                       ]}>
                         {subject}
                       </Text>
+                      {homeworkChange && homeworkChange.kind !== 'removed' && (
+                        <View style={styles.changedBadge}>
+                          <Text style={styles.changedBadgeText}>
+                            {homeworkChange.kind === 'added' ? 'New homework' : 'Homework changed'}
+                          </Text>
+                        </View>
+                      )}
                       {isCompleted && <Text style={styles.completedCheckmark}>✓</Text>}
                       {isSelected && !isCompleted && <Text style={styles.checkmark}>✓</Text>}
                     </TouchableOpacity>
@@ -330,7 +446,7 @@ const HomePage: React.FC<Props> = ({ userStats, username, onLogout, onShowRemind
                 })}
               </View>
             ) : (
-              <Text style={styles.noRemindersText}>No reminders for tomorrow</Text>
+              <Text style={styles.noRemindersText}>No reminders for {nextSchoolDayLabel}</Text>
             )}
             <TouchableOpacity 
               activeOpacity={0.9} 
@@ -342,6 +458,31 @@ const HomePage: React.FC<Props> = ({ userStats, username, onLogout, onShowRemind
           </View>
         </View>
 
+        {(upcomingHomework.length > 0 || overdueHomework.length > 0) && (
+          <View style={styles.homeworkCard}>
+            <View style={styles.homeworkHeaderRow}>
+              <Text style={styles.homeworkTitle}>Homework</Text>
+              {onShowHomeworkHistory && (
+                <TouchableOpacity onPress={onShowHomeworkHistory}>
+                  <Text style={styles.homeworkHistoryLink}>History</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+            {overdueHomework.length > 0 && (
+              <>
+                <Text style={styles.homeworkSectionTitle}>⚠️ Overdue</Text>
+                {overdueHomework.map(item => renderHomeworkRow(item, true))}
+              </>
+            )}
+            {upcomingHomework.length > 0 && (
+              <>
+                <Text style={styles.homeworkSectionTitle}>For {nextSchoolDayLabel}</Text>
+                {upcomingHomework.map(item => renderHomeworkRow(item, false))}
+              </>
+            )}
+          </View>
+        )}
+
         <View style={{ height: 80 }} />
       </ScrollView>
 
@@ -354,6 +495,43 @@ const HomePage: React.FC<Props> = ({ userStats, username, onLogout, onShowRemind
               <View style={{ gap: 8 }}>
                 <Text style={styles.modalItem}>• App Version: 1.0.0</Text>
                 <Text style={styles.modalItem}>• Env: dev</Text>
+                <Text style={styles.modalItem}>• Today: {toIsoDate(getToday())}{isClockFaked() ? ' (faked)' : ''}</Text>
+
+                <Text style={styles.modalSectionTitle}>Fake Today</Text>
+                <TextInput
+                  value={fakeToday}
+                  onChangeText={setFakeToday}
+                  placeholder="YYYY-MM-DD"
+                  placeholderTextColor="#64748b"
+                  style={styles.modalInput}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                />
+                <View style={{ flexDirection: 'row', gap: 8 }}>
+                  <TouchableOpacity
+                    style={[styles.modalNotificationButton, { flex: 1 }]}
+                    onPress={() => {
+                      if (!/^\d{4}-\d{2}-\d{2}$/.test(fakeToday.trim())) {
+                        Alert.alert('Invalid date', 'Use the YYYY-MM-DD format');
+                        return;
+                      }
+                      setClock(fixedClock(fakeToday.trim()));
+                      setClockVersion(version => version + 1);
+                    }}
+                  >
+                    <Text style={styles.modalNotificationButtonText}>📅 Apply</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.modalNotificationButton, { flex: 1 }]}
+                    onPress={() => {
+                      resetClock();
+                      setFakeToday('');
+                      setClockVersion(version => version + 1);
+                    }}
+                  >
+                    <Text style={styles.modalNotificationButtonText}>↺ Real time</Text>
+                  </TouchableOpacity>
+                </View>
                 <TouchableOpacity 
                   style={styles.modalDangerButton}
                   onPress={async () => {
@@ -431,17 +609,15 @@ const HomePage: React.FC<Props> = ({ userStats, username, onLogout, onShowRemind
                       return;
                     }
                     try {
-                      // Schedule notification after 10 seconds
-                      setTimeout(async () => {
-                        await Notifications.scheduleNotificationAsync({
-                          content: {
-                            title: 'Revisory',
-                            body: 'Hey, you should remind yourself',
-                            sound: true,
-                          },
-                          trigger: null,
-                        });
-                      }, 10000);
+                      // Schedule notification after 10 seconds (delivered even if the app is closed)
+                      await Notifications.scheduleNotificationAsync({
+                        content: {
+                          title: 'Revisory',
+                          body: 'Hey, you should remind yourself',
+                          sound: true,
+                        },
+                        trigger: { type: Notifications.SchedulableTriggerInputTypes.TIME_INTERVAL, seconds: 10 },
+                      });
                       Alert.alert('Success', 'Notification scheduled for 10 seconds!');
                     } catch (error) {
                       console.error('Error scheduling notification:', error);
@@ -460,17 +636,15 @@ const HomePage: React.FC<Props> = ({ userStats, username, onLogout, onShowRemind
                       return;
                     }
                     try {
-                      // Schedule notification after 20 seconds
-                      setTimeout(async () => {
-                        await Notifications.scheduleNotificationAsync({
-                          content: {
-                            title: 'Revisory',
-                            body: 'Hey, you should remind yourself',
-                            sound: true,
-                          },
-                          trigger: null,
-                        });
-                      }, 20000);
+                      // Schedule notification after 20 seconds (delivered even if the app is closed)
+                      await Notifications.scheduleNotificationAsync({
+                        content: {
+                          title: 'Revisory',
+                          body: 'Hey, you should remind yourself',
+                          sound: true,
+                        },
+                        trigger: { type: Notifications.SchedulableTriggerInputTypes.TIME_INTERVAL, seconds: 20 },
+                      });
                       Alert.alert('Success', 'Notification scheduled for 20 seconds!');
                     } catch (error) {
                       console.error('Error scheduling notification:', error);
@@ -598,6 +772,24 @@ const styles = StyleSheet.create({
     fontSize: 16,
     marginBottom: 12,
   },
+  warningCard: {
+    backgroundColor: '#2a2a2a',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#f59e0b',
+    gap: 4,
+  },
+  warningTitle: {
+    color: '#f59e0b',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  warningDetail: {
+    color: '#cbd5e1',
+    fontSize: 13,
+  },
   urgentCard: {
     backgroundColor: '#22c55e',
     borderRadius: 16,
@@ -746,6 +938,17 @@ const styles = StyleSheet.create({
     color: '#dbeafe',
     fontWeight: '700',
   },
+  changedBadge: {
+    backgroundColor: '#f59e0b',
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  changedBadgeText: {
+    color: '#451a03',
+    fontSize: 11,
+    fontWeight: '800',
+  },
   checkmark: {
     color: '#052e16',
     fontSize: 18,
@@ -812,6 +1015,80 @@ const styles = StyleSheet.create({
   dailyTasksProgressFillCompleted: {
     backgroundColor: '#22c55e',
   },
+  homeworkCard: {
+    backgroundColor: '#2a2a2a',
+    borderRadius: 16,
+    padding: 20,
+    marginTop: 16,
+    gap: 10,
+  },
+  homeworkHeaderRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  homeworkTitle: {
+    color: '#f8fafc',
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  homeworkHistoryLink: {
+    color: '#60a5fa',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  homeworkSectionTitle: {
+    color: '#cbd5e1',
+    fontSize: 14,
+    fontWeight: '700',
+    marginTop: 4,
+  },
+  homeworkRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#334155',
+  },
+  homeworkCheckbox: {
+    width: 24,
+    height: 24,
+    borderRadius: 6,
+    borderWidth: 2,
+    borderColor: '#475569',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 2,
+  },
+  homeworkCheckboxDone: {
+    backgroundColor: '#22c55e',
+    borderColor: '#22c55e',
+  },
+  homeworkCheckmark: {
+    color: '#052e16',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  homeworkSubject: {
+    color: '#f8fafc',
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  homeworkOverdue: {
+    color: '#ef4444',
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  homeworkText: {
+    color: '#cbd5e1',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  homeworkDoneText: {
+    color: '#64748b',
+    textDecorationLine: 'line-through',
+  },
   noRemindersText: {
     color: '#94a3b8',
     fontSize: 14,
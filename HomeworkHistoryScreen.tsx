@@ -0,0 +1,210 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  SafeAreaView,
+  StatusBar,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { getLessons } from '../utils/database';
+import { getFilterRules } from '../utils/subjectFilters';
+import { getHomeworkCompletions, getHomeworkHistory, getHomeworkItems, SubjectHomeworkHistory } from '../utils/homework';
+import { getNextSchoolDate } from '../utils/schoolCalendar';
+
+type Props = {
+  username: string;
+  onBack: () => void;
+};
+
+const HomeworkHistoryScreen: React.FC<Props> = ({ username, onBack }) => {
+  const [history, setHistory] = useState<SubjectHomeworkHistory[]>([]);
+  const [expandedSubject, setExpandedSubject] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      try {
+        const [lessons, completions, rules, nextSchoolDate] = await Promise.all([
+          getLessons(username),
+          getHomeworkCompletions(username),
+          getFilterRules(username),
+          getNextSchoolDate(username),
+        ]);
+        // Count everything due up to the next school day; later homework only once it is done
+        setHistory(getHomeworkHistory(getHomeworkItems(lessons, completions, rules), nextSchoolDate));
+      } catch (error) {
+        console.error('Error loading homework history:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadHistory();
+  }, [username]);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" />
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onBack} style={styles.backButton}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Homework History</Text>
+        <View style={{ width: 60 }} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+        {isLoading ? (
+          <ActivityIndicator color="#22c55e" style={{ marginTop: 24 }} />
+        ) : history.length === 0 ? (
+          <Text style={styles.emptyText}>No homework yet.</Text>
+        ) : (
+          history.map(subject => {
+            const isExpanded = expandedSubject === subject.subject;
+            const percent = subject.total > 0 ? subject.done / subject.total : 0;
+            return (
+              <TouchableOpacity
+                key={subject.subject}
+                style={styles.subjectCard}
+                onPress={() => setExpandedSubject(isExpanded ? null : subject.subject)}
+                activeOpacity={0.8}
+              >
+                <View style={styles.subjectHeader}>
+                  <Text style={styles.subjectName}>{subject.subject}</Text>
+                  <Text style={styles.subjectCount}>{subject.done} / {subject.total}</Text>
+                </View>
+                <View style={styles.progressBarBg}>
+                  <View style={[styles.progressFill, { width: `${percent * 100}%` }]} />
+                </View>
+                {isExpanded &&
+                  subject.items.map(item => (
+                    <View key={item.key} style={styles.itemRow}>
+                      <Text style={[styles.itemStatus, item.completedAt ? styles.itemDone : styles.itemMissed]}>
+                        {item.completedAt ? '✓' : '✗'}
+                      </Text>
+                      <View style={{ flex: 1 }}>
+                        <Text style={styles.itemDate}>
+                          {item.date}
+                          {item.completedAt ? ` · done ${item.completedAt.slice(0, 10)}` : ''}
+                        </Text>
+                        <Text style={styles.itemText}>{item.homework}</Text>
+                      </View>
+                    </View>
+                  ))}
+              </TouchableOpacity>
+            );
+          })
+        )}
+
+        <View style={{ height: 40 }} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1e1e1e',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#334155',
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  backButtonText: {
+    color: '#22c55e',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  headerTitle: {
+    color: '#f8fafc',
+    fontSize: 20,
+    fontWeight: '700',
+    flex: 1,
+    textAlign: 'center',
+  },
+  scrollContent: {
+    padding: 16,
+    gap: 10,
+  },
+  emptyText: {
+    color: '#94a3b8',
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  subjectCard: {
+    backgroundColor: '#2a2a2a',
+    borderRadius: 12,
+    padding: 14,
+    borderWidth: 1,
+    borderColor: '#334155',
+    gap: 8,
+  },
+  subjectHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  subjectName: {
+    color: '#f8fafc',
+    fontSize: 16,
+    fontWeight: '700',
+    flexShrink: 1,
+  },
+  subjectCount: {
+    color: '#cbd5e1',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  progressBarBg: {
+    height: 6,
+    backgroundColor: '#334155',
+    borderRadius: 3,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#22c55e',
+  },
+  itemRow: {
+    flexDirection: 'row',
+    gap: 10,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#334155',
+  },
+  itemStatus: {
+    fontSize: 16,
+    fontWeight: '800',
+    width: 18,
+  },
+  itemDone: {
+    color: '#22c55e',
+  },
+  itemMissed: {
+    color: '#ef4444',
+  },
+  itemDate: {
+    color: '#94a3b8',
+    fontSize: 12,
+  },
+  itemText: {
+    color: '#e2e8f0',
+    fontSize: 13,
+    marginTop: 2,
+  },
+});
+
+export default HomeworkHistoryScreen;
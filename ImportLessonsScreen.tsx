@@ -0,0 +1,412 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  SafeAreaView,
+  StatusBar,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { getLessons, saveLessons } from '../utils/database';
+import { ImportFormat, ImportPreview, parseLessonFile, previewImport } from '../utils/lessonImport';
+
+type Props = {
+  username: string;
+  onBack: () => void;
+  onImported: () => void;
+};
+
+const CSV_EXAMPLE = 'date,subject,topic,homework\n2025-11-05,Matemātika,Kvadrātvienādojumi,86. lpp. 12.–15. uzd.';
+
+const ImportLessonsScreen: React.FC<Props> = ({ username, onBack, onImported }) => {
+  const [format, setFormat] = useState<ImportFormat>('ics');
+  const [text, setText] = useState('');
+  const [url, setUrl] = useState('');
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [parseErrors, setParseErrors] = useState<string[]>([]);
+  const [parseWarnings, setParseWarnings] = useState<string[]>([]);
+  const [error, setError] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  const resetPreview = () => {
+    setPreview(null);
+    setParseErrors([]);
+    setParseWarnings([]);
+    setError('');
+  };
+
+  const buildPreview = async (content: string) => {
+    const result = parseLessonFile(format, content);
+    setParseErrors(result.errors);
+    setParseWarnings(result.warnings);
+    if (result.lessons.length === 0) {
+      setPreview(null);
+      setError('No lessons found. Check the format below.');
+      return;
+    }
+    const existing = await getLessons(username);
+    setPreview(previewImport(existing, result.lessons));
+  };
+
+  const handlePreview = async () => {
+    resetPreview();
+    setIsWorking(true);
+    try {
+      let content = text;
+      if (url.trim()) {
+        const response = await fetch(url.trim().replace(/^webcal:\/\//i, 'https://'));
+        if (!response.ok) {
+          setError(`Could not download the file (HTTP ${response.status})`);
+          return;
+        }
+        content = await response.text();
+      }
+      if (!content.trim()) {
+        setError('Paste the file contents or enter a link');
+        return;
+      }
+      await buildPreview(content);
+    } catch (err: any) {
+      console.error('Error previewing import:', err);
+      setError(err?.message || 'Failed to read the file');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!preview) return;
+    setIsWorking(true);
+    try {
+      await saveLessons(username, preview.merged);
+      Alert.alert('Import', `Added ${preview.added} and updated ${preview.updated} lessons.`);
+      onImported();
+    } catch (err) {
+      console.error('Error saving imported lessons:', err);
+      setError('Failed to save lessons');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const changes = preview ? preview.items.filter(item => item.status !== 'duplicate') : [];
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" />
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onBack} style={styles.backButton}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Import Timetable</Text>
+        <View style={{ width: 60 }} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+        <View style={styles.formatRow}>
+          {(['ics', 'csv'] as ImportFormat[]).map((option) => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.formatButton, format === option && styles.formatButtonActive]}
+              onPress={() => {
+                setFormat(option);
+                resetPreview();
+              }}
+            >
+              <Text style={[styles.formatButtonText, format === option && styles.formatButtonTextActive]}>
+                {option === 'ics' ? 'Calendar (.ics)' : 'Spreadsheet (.csv)'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.label}>Link to the file (optional)</Text>
+        <TextInput
+          style={styles.input}
+          value={url}
+          onChangeText={(value) => {
+            setUrl(value);
+            resetPreview();
+          }}
+          placeholder={format === 'ics' ? 'https://… or webcal://…' : 'https://…/timetable.csv'}
+          placeholderTextColor="#64748b"
+          autoCapitalize="none"
+          autoCorrect={false}
+          editable={!isWorking}
+        />
+
+        <Text style={styles.label}>…or paste the contents</Text>
+        <TextInput
+          style={[styles.input, styles.textArea]}
+          value={text}
+          onChangeText={(value) => {
+            setText(value);
+            resetPreview();
+          }}
+          placeholder={format === 'ics' ? 'BEGIN:VCALENDAR…' : CSV_EXAMPLE}
+          placeholderTextColor="#64748b"
+          autoCapitalize="none"
+          autoCorrect={false}
+          multiline
+          editable={!isWorking}
+        />
+
+        <Text style={styles.hint}>
+          {format === 'ics'
+            ? 'Each event becomes a lesson. The title is the subject ("Subject: Topic" also sets the topic). Description lines starting with "Homework:" become homework.'
+            : 'First row: date,subject,topic,homework (topic and homework optional). Dates as YYYY-MM-DD or DD.MM.YYYY. Commas or semicolons.'}
+        </Text>
+
+        {!!error && <Text style={styles.errorText}>{error}</Text>}
+        {parseErrors.length > 0 && (
+          <View style={styles.warningBox}>
+            <Text style={styles.warningTitle}>Skipped {parseErrors.length} entries</Text>
+            {parseErrors.slice(0, 5).map((message, index) => (
+              <Text key={index} style={styles.warningText}>• {message}</Text>
+            ))}
+          </View>
+        )}
+
+        {parseWarnings.length > 0 && (
+          <View style={styles.warningBox}>
+            <Text style={styles.warningTitle}>Read with changes</Text>
+            {parseWarnings.slice(0, 5).map((message, index) => (
+              <Text key={index} style={styles.warningText}>• {message}</Text>
+            ))}
+          </View>
+        )}
+
+        <TouchableOpacity
+          style={[styles.primaryButton, isWorking && styles.buttonDisabled]}
+          onPress={handlePreview}
+          disabled={isWorking}
+          activeOpacity={0.8}
+        >
+          {isWorking && !preview ? (
+            <ActivityIndicator color="#052e16" />
+          ) : (
+            <Text style={styles.primaryButtonText}>Preview</Text>
+          )}
+        </TouchableOpacity>
+
+        {preview && (
+          <View style={styles.previewCard}>
+            <Text style={styles.previewTitle}>Preview</Text>
+            <Text style={styles.previewSummary}>
+              {preview.added} new · {preview.updated} updated · {preview.duplicates} already saved
+            </Text>
+            {changes.map((item, index) => (
+              <View key={index} style={styles.previewRow}>
+                <View style={[styles.statusBadge, item.status === 'new' ? styles.statusNew : styles.statusUpdated]}>
+                  <Text style={styles.statusBadgeText}>{item.status === 'new' ? 'New' : 'Updated'}</Text>
+                </View>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.previewSubject}>{item.lesson.date} · {item.lesson.subject}</Text>
+                  {!!item.lesson.topic && <Text style={styles.previewDetail}>{item.lesson.topic}</Text>}
+                  {!!item.lesson.homework && <Text style={styles.previewDetail}>📝 {item.lesson.homework}</Text>}
+                </View>
+              </View>
+            ))}
+            <TouchableOpacity
+              style={[styles.primaryButton, (isWorking || changes.length === 0) && styles.buttonDisabled]}
+              onPress={handleSave}
+              disabled={isWorking || changes.length === 0}
+              activeOpacity={0.8}
+            >
+              {isWorking ? (
+                <ActivityIndicator color="#052e16" />
+              ) : (
+                <Text style={styles.primaryButtonText}>
+                  {changes.length === 0 ? 'Nothing new to import' : `Save ${changes.length} lessons`}
+                </Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <View style={{ height: 40 }} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1e1e1e',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#334155',
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  backButtonText: {
+    color: '#22c55e',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  headerTitle: {
+    color: '#f8fafc',
+    fontSize: 20,
+    fontWeight: '700',
+    flex: 1,
+    textAlign: 'center',
+  },
+  scrollContent: {
+    padding: 16,
+    gap: 10,
+  },
+  formatRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 6,
+  },
+  formatButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: '#2a2a2a',
+    borderWidth: 1,
+    borderColor: '#334155',
+    alignItems: 'center',
+  },
+  formatButtonActive: {
+    backgroundColor: '#22c55e',
+    borderColor: '#16a34a',
+  },
+  formatButtonText: {
+    color: '#e2e8f0',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  formatButtonTextActive: {
+    color: '#052e16',
+    fontWeight: '800',
+  },
+  label: {
+    color: '#e2e8f0',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  input: {
+    backgroundColor: '#2a2a2a',
+    borderRadius: 12,
+    minHeight: 44,
+    paddingHorizontal: 12,
+    color: '#f8fafc',
+    fontSize: 14,
+    borderWidth: 1,
+    borderColor: '#334155',
+  },
+  textArea: {
+    minHeight: 140,
+    paddingTop: 10,
+    textAlignVertical: 'top',
+  },
+  hint: {
+    color: '#94a3b8',
+    fontSize: 12,
+  },
+  errorText: {
+    color: '#ef4444',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  warningBox: {
+    backgroundColor: '#0b1220',
+    borderRadius: 8,
+    padding: 10,
+    gap: 2,
+  },
+  warningTitle: {
+    color: '#f59e0b',
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  warningText: {
+    color: '#cbd5e1',
+    fontSize: 12,
+  },
+  primaryButton: {
+    backgroundColor: '#22c55e',
+    borderRadius: 12,
+    height: 48,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 6,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  primaryButtonText: {
+    color: '#052e16',
+    fontSize: 16,
+    fontWeight: '800',
+  },
+  previewCard: {
+    backgroundColor: '#2a2a2a',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#334155',
+    gap: 10,
+    marginTop: 6,
+  },
+  previewTitle: {
+    color: '#f8fafc',
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  previewSummary: {
+    color: '#cbd5e1',
+    fontSize: 13,
+  },
+  previewRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 10,
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#334155',
+  },
+  statusBadge: {
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  statusNew: {
+    backgroundColor: '#22c55e',
+  },
+  statusUpdated: {
+    backgroundColor: '#f59e0b',
+  },
+  statusBadgeText: {
+    color: '#052e16',
+    fontSize: 11,
+    fontWeight: '800',
+  },
+  previewSubject: {
+    color: '#f8fafc',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  previewDetail: {
+    color: '#cbd5e1',
+    fontSize: 12,
+    marginTop: 2,
+  },
+});
+
+export default ImportLessonsScreen;
@@ -0,0 +1,397 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  SafeAreaView,
+  StatusBar,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { getLessons } from '../utils/database';
+import { LessonDraft, ManagedLesson, deleteLesson, isManualLesson, saveLesson } from '../utils/lessons';
+import { getToday, toIsoDate } from '../utils/schoolCalendar';
+
+type Props = {
+  username: string;
+  onBack: () => void;
+  onLessonsChanged: () => void;
+};
+
+const emptyDraft = (): LessonDraft => ({ subject: '', date: toIsoDate(getToday()), topic: '', homework: '' });
+
+const LessonEditorScreen: React.FC<Props> = ({ username, onBack, onLessonsChanged }) => {
+  const [lessons, setLessons] = useState<ManagedLesson[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editorVisible, setEditorVisible] = useState(false);
+  const [editing, setEditing] = useState<ManagedLesson | null>(null);
+  const [draft, setDraft] = useState<LessonDraft>(emptyDraft());
+  const [editorError, setEditorError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    loadLessons();
+  }, [username]);
+
+  const loadLessons = async () => {
+    try {
+      setLessons((await getLessons(username)) as ManagedLesson[]);
+    } catch (error) {
+      console.error('Error loading lessons:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openEditor = (lesson: ManagedLesson | null) => {
+    setEditing(lesson);
+    setDraft(
+      lesson
+        ? { subject: lesson.subject, date: lesson.date, topic: lesson.topic || '', homework: lesson.homework || '' }
+        : emptyDraft()
+    );
+    setEditorError('');
+    setEditorVisible(true);
+  };
+
+  const closeEditor = () => {
+    setEditorVisible(false);
+    setEditing(null);
+    setEditorError('');
+  };
+
+  const updateDraft = (field: keyof LessonDraft, value: string) => {
+    setDraft(current => ({ ...current, [field]: value }));
+    setEditorError('');
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const result = await saveLesson(username, editing, draft);
+      if (!result.success || !result.lessons) {
+        setEditorError(result.message || 'Failed to save the lesson');
+        return;
+      }
+      setLessons(result.lessons);
+      closeEditor();
+      onLessonsChanged();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!editing) return;
+    Alert.alert(
+      'Delete lesson',
+      isManualLesson(editing) && !editing.replacesDiaryKey
+        ? `Delete ${editing.subject} on ${editing.date}?`
+        : `Delete ${editing.subject} on ${editing.date}? E-klase sync won't bring it back.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await deleteLesson(username, editing);
+            if (!result.success || !result.lessons) {
+              setEditorError(result.message || 'Failed to delete the lesson');
+              return;
+            }
+            setLessons(result.lessons);
+            closeEditor();
+            onLessonsChanged();
+          },
+        },
+      ]
+    );
+  };
+
+  // Newest dates first, then by subject
+  const sortedLessons = [...lessons].sort(
+    (a, b) => b.date.localeCompare(a.date) || a.subject.localeCompare(b.subject)
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" />
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onBack} style={styles.backButton}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Lessons</Text>
+        <View style={{ width: 60 }} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+        <TouchableOpacity style={styles.addButton} onPress={() => openEditor(null)} activeOpacity={0.8}>
+          <Text style={styles.addButtonText}>＋ Add lesson</Text>
+        </TouchableOpacity>
+
+        {isLoading ? (
+          <ActivityIndicator color="#22c55e" style={{ marginTop: 24 }} />
+        ) : sortedLessons.length === 0 ? (
+          <Text style={styles.emptyText}>No lessons yet. Add one or import your diary.</Text>
+        ) : (
+          sortedLessons.map((lesson, index) => (
+            <TouchableOpacity
+              key={lesson.id || `${lesson.date}-${lesson.subject}-${index}`}
+              style={styles.lessonCard}
+              onPress={() => openEditor(lesson)}
+              activeOpacity={0.8}
+            >
+              <View style={styles.lessonHeader}>
+                <Text style={styles.lessonSubject}>{lesson.subject}</Text>
+                {isManualLesson(lesson) && (
+                  <View style={styles.manualBadge}>
+                    <Text style={styles.manualBadgeText}>Manual</Text>
+                  </View>
+                )}
+                <Text style={styles.lessonDate}>{lesson.date}</Text>
+              </View>
+              <Text style={[styles.lessonDetail, !lesson.topic && styles.missingText]}>
+                {lesson.topic || 'No topic – tap to add one'}
+              </Text>
+              {!!lesson.homework && <Text style={styles.lessonDetail}>📝 {lesson.homework}</Text>}
+            </TouchableOpacity>
+          ))
+        )}
+
+        <View style={{ height: 40 }} />
+      </ScrollView>
+
+      {/* Lesson Editor Modal */}
+      <Modal transparent visible={editorVisible} animationType="fade" onRequestClose={closeEditor}>
+        <View style={styles.modalBackdrop}>
+          <View style={styles.modalCard}>
+            <Text style={styles.modalTitle}>{editing ? 'Edit Lesson' : 'New Lesson'}</Text>
+            <TextInput
+              value={draft.subject}
+              onChangeText={(text) => updateDraft('subject', text)}
+              placeholder="Subject"
+              placeholderTextColor="#64748b"
+              style={styles.modalInput}
+              editable={!isSaving}
+            />
+            <TextInput
+              value={draft.date}
+              onChangeText={(text) => updateDraft('date', text)}
+              placeholder="Date (YYYY-MM-DD)"
+              placeholderTextColor="#64748b"
+              style={styles.modalInput}
+              autoCapitalize="none"
+              autoCorrect={false}
+              editable={!isSaving}
+            />
+            <TextInput
+              value={draft.topic}
+              onChangeText={(text) => updateDraft('topic', text)}
+              placeholder="Topic"
+              placeholderTextColor="#64748b"
+              style={[styles.modalInput, styles.modalTextArea]}
+              multiline
+              editable={!isSaving}
+            />
+            <TextInput
+              value={draft.homework}
+              onChangeText={(text) => updateDraft('homework', text)}
+              placeholder="Homework"
+              placeholderTextColor="#64748b"
+              style={[styles.modalInput, styles.modalTextArea]}
+              multiline
+              editable={!isSaving}
+            />
+            {!!editorError && <Text style={styles.modalErrorText}>{editorError}</Text>}
+            <TouchableOpacity
+              style={[styles.modalSubmit, isSaving && { opacity: 0.6 }]}
+              onPress={handleSave}
+              disabled={isSaving}
+            >
+              {isSaving ? (
+                <ActivityIndicator color="#052e16" />
+              ) : (
+                <Text style={styles.modalSubmitText}>Save</Text>
+              )}
+            </TouchableOpacity>
+            {editing && (
+              <TouchableOpacity style={styles.modalDelete} onPress={handleDelete} disabled={isSaving}>
+                <Text style={styles.modalDeleteText}>Delete lesson</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={styles.modalClose} onPress={closeEditor} disabled={isSaving}>
+              <Text style={styles.modalCloseText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1e1e1e',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#334155',
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  backButtonText: {
+    color: '#22c55e',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  headerTitle: {
+    color: '#f8fafc',
+    fontSize: 20,
+    fontWeight: '700',
+    flex: 1,
+    textAlign: 'center',
+  },
+  scrollContent: {
+    padding: 16,
+    gap: 10,
+  },
+  addButton: {
+    backgroundColor: '#22c55e',
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  addButtonText: {
+    color: '#052e16',
+    fontSize: 16,
+    fontWeight: '800',
+  },
+  emptyText: {
+    color: '#94a3b8',
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  lessonCard: {
+    backgroundColor: '#2a2a2a',
+    borderRadius: 12,
+    padding: 14,
+    borderWidth: 1,
+    borderColor: '#334155',
+    gap: 4,
+  },
+  lessonHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  lessonSubject: {
+    color: '#f8fafc',
+    fontSize: 15,
+    fontWeight: '700',
+    flexShrink: 1,
+  },
+  manualBadge: {
+    backgroundColor: '#60a5fa',
+    borderRadius: 8,
+    paddingHorizontal: 6,
+    paddingVertical: 1,
+  },
+  manualBadgeText: {
+    color: '#0b1220',
+    fontSize: 10,
+    fontWeight: '800',
+  },
+  lessonDate: {
+    color: '#94a3b8',
+    fontSize: 12,
+    marginLeft: 'auto',
+  },
+  lessonDetail: {
+    color: '#cbd5e1',
+    fontSize: 13,
+  },
+  missingText: {
+    color: '#f59e0b',
+    fontStyle: 'italic',
+  },
+  modalBackdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  modalCard: {
+    width: '84%',
+    backgroundColor: '#1f2937',
+    borderRadius: 14,
+    padding: 16,
+    gap: 10,
+  },
+  modalTitle: {
+    color: '#f8fafc',
+    fontSize: 16,
+    fontWeight: '800',
+  },
+  modalInput: {
+    backgroundColor: '#2a2a2a',
+    borderRadius: 10,
+    height: 44,
+    paddingHorizontal: 12,
+    color: '#e2e8f0',
+  },
+  modalTextArea: {
+    height: 72,
+    paddingTop: 10,
+    textAlignVertical: 'top',
+  },
+  modalErrorText: {
+    color: '#ef4444',
+    fontSize: 12,
+  },
+  modalSubmit: {
+    marginTop: 4,
+    backgroundColor: '#22c55e',
+    borderRadius: 10,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  modalSubmitText: {
+    color: '#052e16',
+    fontSize: 14,
+    fontWeight: '800',
+  },
+  modalDelete: {
+    backgroundColor: '#ef4444',
+    borderRadius: 10,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  modalDeleteText: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  modalClose: {
+    alignItems: 'center',
+  },
+  modalCloseText: {
+    color: '#94a3b8',
+    fontSize: 14,
+  },
+});
+
+export default LessonEditorScreen;
@@ -1,81 +1,143 @@
 import React, { useState } from 'react';
-import { View, Text, TextInput, TouchableOpacity, StyleSheet, Alert, ActivityIndicator } from 'react-native';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, ActivityIndicator } from 'react-native';
+import { signIn, signUp } from '../utils/auth';
 
 type Props = {
   onLogin: (username: string) => void;
   isLoading?: boolean;
 };
 
+type Mode = 'login' | 'signup';
+
 const LoginScreen: React.FC<Props> = ({ onLogin, isLoading = false }) => {
+  const [mode, setMode] = useState<Mode>('login');
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const isBusy = isLoading || isSubmitting;
 
-  const handleLogin = () => {
+  const switchMode = (nextMode: Mode) => {
+    setMode(nextMode);
+    setError('');
+    setPassword('');
+    setConfirmPassword('');
+  };
+
+  const handleSubmit = async () => {
     const trimmedUsername = username.trim();
-    const trimmedPassword = password.trim();
 
-    if (!trimmedUsername || !trimmedPassword) {
-      Alert.alert('Error', 'Please enter both username and password');
+    if (!trimmedUsername || !password) {
+      setError('Please enter both username and password');
       return;
     }
 
-    // Case-insensitive username check
-    if (trimmedUsername.toLowerCase() !== 'juris') {
-      Alert.alert('Error', 'Invalid username');
+    if (mode === 'signup' && password !== confirmPassword) {
+      setError('Passwords do not match');
       return;
     }
 
-    if (trimmedPassword !== '1234') {
-      Alert.alert('Error', 'Invalid password');
-      return;
-    }
+    setError('');
+    setIsSubmitting(true);
+    try {
+      const result = mode === 'signup'
+        ? await signUp(trimmedUsername, password)
+        : await signIn(trimmedUsername, password);
+
+      if (!result.success || !result.userName) {
+        setError(result.message || 'Something went wrong. Please try again.');
+        return;
+      }
 
-    // Login successful
-    onLogin(trimmedUsername);
+      // Login successful
+      onLogin(result.userName);
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
   return (
     <View style={styles.container}>
       <View style={styles.content}>
         <Text style={styles.title}>Revisory</Text>
-        <Text style={styles.subtitle}>Welcome back!</Text>
+        <Text style={styles.subtitle}>{mode === 'login' ? 'Welcome back!' : 'Create your account'}</Text>
 
         <View style={styles.form}>
           <Text style={styles.label}>Username</Text>
           <TextInput
-            style={styles.input}
+            style={[styles.input, !!error && styles.inputError]}
             value={username}
-            onChangeText={setUsername}
+            onChangeText={(text) => {
+              setUsername(text);
+              setError('');
+            }}
             placeholder="Enter username"
             placeholderTextColor="#64748b"
             autoCapitalize="none"
-            editable={!isLoading}
+            autoCorrect={false}
+            editable={!isBusy}
           />
 
           <Text style={styles.label}>Password</Text>
           <TextInput
-            style={styles.input}
+            style={[styles.input, !!error && styles.inputError]}
             value={password}
-            onChangeText={setPassword}
+            onChangeText={(text) => {
+              setPassword(text);
+              setError('');
+            }}
             placeholder="Enter password"
             placeholderTextColor="#64748b"
             secureTextEntry
-            editable={!isLoading}
-            onSubmitEditing={handleLogin}
+            editable={!isBusy}
+            onSubmitEditing={mode === 'login' ? handleSubmit : undefined}
           />
 
+          {mode === 'signup' && (
+            <>
+              <Text style={styles.label}>Confirm password</Text>
+              <TextInput
+                style={[styles.input, !!error && styles.inputError]}
+                value={confirmPassword}
+                onChangeText={(text) => {
+                  setConfirmPassword(text);
+                  setError('');
+                }}
+                placeholder="Repeat password"
+                placeholderTextColor="#64748b"
+                secureTextEntry
+                editable={!isBusy}
+                onSubmitEditing={handleSubmit}
+              />
+            </>
+          )}
+
+          {!!error && <Text style={styles.errorText}>{error}</Text>}
+
           <TouchableOpacity
-            style={[styles.loginButton, isLoading && styles.loginButtonDisabled]}
-            onPress={handleLogin}
-            disabled={isLoading}
+            style={[styles.loginButton, isBusy && styles.loginButtonDisabled]}
+            onPress={handleSubmit}
+            disabled={isBusy}
             activeOpacity={0.8}
           >
-            {isLoading ? (
+            {isBusy ? (
               <ActivityIndicator color="#052e16" />
             ) : (
-              <Text style={styles.loginButtonText}>Login</Text>
+              <Text style={styles.loginButtonText}>{mode === 'login' ? 'Login' : 'Sign Up'}</Text>
             )}
           </TouchableOpacity>
+
+          <TouchableOpacity
+            onPress={() => switchMode(mode === 'login' ? 'signup' : 'login')}
+            disabled={isBusy}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.switchModeText}>
+              {mode === 'login' ? "Don't have an account? Sign up" : 'Already have an account? Log in'}
+            </Text>
+          </TouchableOpacity>
         </View>
       </View>
     </View>
@@ -125,6 +187,14 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#334155',
   },
+  inputError: {
+    borderColor: '#ef4444',
+  },
+  errorText: {
+    color: '#ef4444',
+    fontSize: 13,
+    fontWeight: '600',
+  },
   loginButton: {
     backgroundColor: '#22c55e',
     borderRadius: 12,
@@ -141,6 +211,11 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '800',
   },
+  switchModeText: {
+    color: '#60a5fa',
+    fontSize: 14,
+    textAlign: 'center',
+  },
 });
 
 export default LoginScreen;
@@ -0,0 +1,414 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  SafeAreaView,
+  StatusBar,
+  TouchableOpacity,
+  TextInput,
+  Switch,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import * as Notifications from 'expo-notifications';
+import {
+  DEFAULT_NOTIFICATION_SETTINGS,
+  NotificationSettings,
+  ReminderTimingMode,
+  ScheduledReminder,
+  formatMinutes,
+  formatTime,
+  getNotificationSettings,
+  planReminders,
+  saveNotificationSettings,
+} from '../utils/notifications';
+
+type Props = {
+  username: string;
+  onBack: () => void;
+};
+
+const parseTime = (value: string): { hour: number; minute: number } | null => {
+  const match = value.trim().match(/^(\d{1,2})[:.](\d{2})$/);
+  if (!match) return null;
+  const hour = Number(match[1]);
+  const minute = Number(match[2]);
+  return hour < 24 && minute < 60 ? { hour, minute } : null;
+};
+
+const MODE_OPTIONS: { mode: ReminderTimingMode; label: string }[] = [
+  { mode: 'fixed', label: 'Fixed time' },
+  { mode: 'afterLessons', label: 'After lessons' },
+];
+
+const NotificationSettingsScreen: React.FC<Props> = ({ username, onBack }) => {
+  const [settings, setSettings] = useState<NotificationSettings>(DEFAULT_NOTIFICATION_SETTINGS);
+  const [time, setTime] = useState(formatTime(DEFAULT_NOTIFICATION_SETTINGS.hour, DEFAULT_NOTIFICATION_SETTINGS.minute));
+  const [afterLessons, setAfterLessons] = useState(String(DEFAULT_NOTIFICATION_SETTINGS.afterLessonsMinutes));
+  const [quietStart, setQuietStart] = useState(formatMinutes(DEFAULT_NOTIFICATION_SETTINGS.quietStart));
+  const [quietEnd, setQuietEnd] = useState(formatMinutes(DEFAULT_NOTIFICATION_SETTINGS.quietEnd));
+  const [upcoming, setUpcoming] = useState<ScheduledReminder[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const stored = await getNotificationSettings(username);
+        setSettings(stored);
+        setTime(formatTime(stored.hour, stored.minute));
+        setAfterLessons(String(stored.afterLessonsMinutes));
+        setQuietStart(formatMinutes(stored.quietStart));
+        setQuietEnd(formatMinutes(stored.quietEnd));
+        setUpcoming(await planReminders(username));
+      } catch (err) {
+        console.error('Error loading notification settings:', err);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    load();
+  }, [username]);
+
+  const handleSave = async () => {
+    const parsed = parseTime(time);
+    if (!parsed) {
+      setError('Enter the time as HH:MM, e.g. 18:30');
+      return;
+    }
+    const minutesAfter = Number(afterLessons.trim());
+    if (!Number.isInteger(minutesAfter) || minutesAfter < 0 || minutesAfter > 600) {
+      setError('Minutes after lessons must be a whole number from 0 to 600');
+      return;
+    }
+    const parsedQuietStart = parseTime(quietStart);
+    const parsedQuietEnd = parseTime(quietEnd);
+    if (settings.quietHoursEnabled && (!parsedQuietStart || !parsedQuietEnd)) {
+      setError('Enter quiet hours as HH:MM, e.g. 21:00 and 07:00');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const next: NotificationSettings = {
+        ...settings,
+        ...parsed,
+        afterLessonsMinutes: minutesAfter,
+        quietStart: parsedQuietStart ? parsedQuietStart.hour * 60 + parsedQuietStart.minute : settings.quietStart,
+        quietEnd: parsedQuietEnd ? parsedQuietEnd.hour * 60 + parsedQuietEnd.minute : settings.quietEnd,
+      };
+      if (next.enabled) {
+        const { status } = await Notifications.requestPermissionsAsync();
+        if (status !== 'granted') {
+          Alert.alert('Permission Required', 'Please grant notification permissions in your device settings.');
+        }
+      }
+      await saveNotificationSettings(username, next);
+      setSettings(next);
+      setUpcoming(await planReminders(username));
+      Alert.alert(
+        'Saved',
+        !next.enabled
+          ? 'Reminders are off.'
+          : next.mode === 'afterLessons'
+            ? `Reminders come ${next.afterLessonsMinutes} minutes after your last lesson.`
+            : `Reminders are set for ${formatTime(next.hour, next.minute)}.`
+      );
+    } catch (err) {
+      console.error('Error saving notification settings:', err);
+      setError('Failed to save the settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" />
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onBack} style={styles.backButton}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Reminders</Text>
+        <View style={{ width: 60 }} />
+      </View>
+
+      {isLoading ? (
+        <ActivityIndicator color="#22c55e" style={{ marginTop: 24 }} />
+      ) : (
+        <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+          <View style={styles.card}>
+            <View style={styles.switchRow}>
+              <Text style={[styles.label, { flex: 1 }]}>Daily reminder</Text>
+              <Switch
+                value={settings.enabled}
+                onValueChange={(value) => setSettings({ ...settings, enabled: value })}
+                trackColor={{ false: '#334155', true: '#22c55e' }}
+              />
+            </View>
+            <Text style={styles.hint}>
+              Sent on school days with the next school day's subjects. Friday's reminder is about Monday.
+            </Text>
+
+            <View style={styles.modeRow}>
+              {MODE_OPTIONS.map(option => (
+                <TouchableOpacity
+                  key={option.mode}
+                  style={[styles.modeButton, settings.mode === option.mode && styles.modeButtonActive]}
+                  onPress={() => setSettings({ ...settings, mode: option.mode })}
+                  disabled={!settings.enabled}
+                >
+                  <Text style={[styles.modeButtonText, settings.mode === option.mode && styles.modeButtonTextActive]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {settings.mode === 'afterLessons' && (
+              <>
+                <Text style={styles.label}>Minutes after the last lesson</Text>
+                <TextInput
+                  value={afterLessons}
+                  onChangeText={(value) => {
+                    setAfterLessons(value);
+                    setError('');
+                  }}
+                  placeholder="60"
+                  placeholderTextColor="#64748b"
+                  keyboardType="number-pad"
+                  style={styles.input}
+                  editable={settings.enabled}
+                />
+                <Text style={styles.hint}>
+                  The last lesson's end comes from the number of lessons that day and the usual bell schedule.
+                </Text>
+              </>
+            )}
+
+            <Text style={styles.label}>{settings.mode === 'afterLessons' ? 'Time on days without lessons' : 'Time'}</Text>
+            <TextInput
+              value={time}
+              onChangeText={(value) => {
+                setTime(value);
+                setError('');
+              }}
+              placeholder="18:00"
+              placeholderTextColor="#64748b"
+              keyboardType="numbers-and-punctuation"
+              style={styles.input}
+              editable={settings.enabled}
+            />
+          </View>
+
+          <View style={styles.card}>
+            <View style={styles.switchRow}>
+              <Text style={[styles.label, { flex: 1 }]}>Quiet hours</Text>
+              <Switch
+                value={settings.quietHoursEnabled}
+                onValueChange={(value) => setSettings({ ...settings, quietHoursEnabled: value })}
+                trackColor={{ false: '#334155', true: '#22c55e' }}
+              />
+            </View>
+            <Text style={styles.hint}>A reminder that would land in quiet hours comes shortly before they start.</Text>
+            {settings.quietHoursEnabled && (
+              <View style={styles.modeRow}>
+                <View style={{ flex: 1, gap: 6 }}>
+                  <Text style={styles.label}>From</Text>
+                  <TextInput
+                    value={quietStart}
+                    onChangeText={(value) => {
+                      setQuietStart(value);
+                      setError('');
+                    }}
+                    placeholder="21:00"
+                    placeholderTextColor="#64748b"
+                    keyboardType="numbers-and-punctuation"
+                    style={styles.input}
+                  />
+                </View>
+                <View style={{ flex: 1, gap: 6 }}>
+                  <Text style={styles.label}>Until</Text>
+                  <TextInput
+                    value={quietEnd}
+                    onChangeText={(value) => {
+                      setQuietEnd(value);
+                      setError('');
+                    }}
+                    placeholder="07:00"
+                    placeholderTextColor="#64748b"
+                    keyboardType="numbers-and-punctuation"
+                    style={styles.input}
+                  />
+                </View>
+              </View>
+            )}
+          </View>
+
+          {!!error && <Text style={styles.errorText}>{error}</Text>}
+
+          <TouchableOpacity
+            style={[styles.saveButton, isSaving && { opacity: 0.6 }]}
+            onPress={handleSave}
+            disabled={isSaving}
+            activeOpacity={0.8}
+          >
+            {isSaving ? <ActivityIndicator color="#052e16" /> : <Text style={styles.saveButtonText}>Save</Text>}
+          </TouchableOpacity>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Upcoming</Text>
+            {upcoming.length === 0 ? (
+              <Text style={styles.hint}>No reminders planned for the next week.</Text>
+            ) : (
+              upcoming.map(reminder => (
+                <View key={reminder.id} style={styles.reminderRow}>
+                  <Text style={styles.reminderTime}>
+                    {reminder.fireAt.toLocaleDateString('en-US', { weekday: 'short' })}{' '}
+                    {formatTime(reminder.fireAt.getHours(), reminder.fireAt.getMinutes())}
+                  </Text>
+                  <Text style={styles.reminderBody}>{reminder.body}</Text>
+                  <Text style={styles.hint}>{reminder.timing}</Text>
+                </View>
+              ))
+            )}
+          </View>
+
+          <View style={{ height: 40 }} />
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1e1e1e',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#334155',
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  backButtonText: {
+    color: '#22c55e',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  headerTitle: {
+    color: '#f8fafc',
+    fontSize: 20,
+    fontWeight: '700',
+    flex: 1,
+    textAlign: 'center',
+  },
+  scrollContent: {
+    padding: 16,
+    gap: 12,
+  },
+  card: {
+    backgroundColor: '#2a2a2a',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#334155',
+    gap: 10,
+  },
+  cardTitle: {
+    color: '#f8fafc',
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  label: {
+    color: '#e2e8f0',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  hint: {
+    color: '#94a3b8',
+    fontSize: 12,
+  },
+  input: {
+    backgroundColor: '#1e1e1e',
+    borderRadius: 10,
+    height: 44,
+    paddingHorizontal: 12,
+    color: '#e2e8f0',
+    borderWidth: 1,
+    borderColor: '#334155',
+  },
+  errorText: {
+    color: '#ef4444',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  saveButton: {
+    backgroundColor: '#22c55e',
+    borderRadius: 12,
+    height: 48,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: '#052e16',
+    fontSize: 16,
+    fontWeight: '800',
+  },
+  modeRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  modeButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#334155',
+    alignItems: 'center',
+  },
+  modeButtonActive: {
+    backgroundColor: '#22c55e',
+    borderColor: '#22c55e',
+  },
+  modeButtonText: {
+    color: '#cbd5e1',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  modeButtonTextActive: {
+    color: '#052e16',
+  },
+  reminderRow: {
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#334155',
+    gap: 2,
+  },
+  reminderTime: {
+    color: '#60a5fa',
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  reminderBody: {
+    color: '#cbd5e1',
+    fontSize: 13,
+  },
+});
+
+export default NotificationSettingsScreen;
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -9,19 +9,56 @@ import {
   TouchableOpacity,
   Image,
   Alert,
+  Modal,
+  TextInput,
+  ActivityIndicator,
 } from 'react-native';
-import { UserStats } from '../utils/database';
+import { UserStats, getUserData } from '../utils/database';
+import { changePassword } from '../utils/auth';
+import { getStreakSummary } from '../utils/streak';
+import {
+  MAX_STREAK_FREEZES,
+  STREAK_FREEZE_PRICE,
+  StreakFreezeInventory,
+  buyStreakFreeze,
+  getStreakFreezeInventory,
+  isStreakFreezeId,
+} from '../utils/streakFreeze';
 
 type Props = {
   userStats: UserStats | null;
   username: string;
   onBack: () => void;
   onLogout: () => void;
+  onImportEklase?: () => void;
+  // The E-klase session expired; the import button signs in again
+  eklaseNeedsReconnect?: boolean;
+  onImportTimetable?: () => void;
+  onEditLessons?: () => void;
+  onEditFilters?: () => void;
+  onCoinsUpdated?: (coins: number) => void;
+  onEditNotifications?: () => void;
+  onEditAiProvider?: () => void;
 };
 
-const ProfileScreen: React.FC<Props> = ({ userStats, username, onBack, onLogout }) => {
+const ProfileScreen: React.FC<Props> = ({ userStats, username, onBack, onLogout, onImportEklase, eklaseNeedsReconnect, onImportTimetable, onEditLessons, onEditFilters, onCoinsUpdated, onEditNotifications, onEditAiProvider }) => {
   // Profile picture - for Juris, use the car image from assets
   const isJuris = username.toLowerCase() === 'juris';
+  const [passwordModalVisible, setPasswordModalVisible] = useState(false);
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [passwordError, setPasswordError] = useState('');
+  const [isChangingPassword, setIsChangingPassword] = useState(false);
+  const [longestStreak, setLongestStreak] = useState(0);
+
+  const [freezeInventory, setFreezeInventory] = useState<StreakFreezeInventory>({ available: [], uses: [] });
+  const [isBuyingFreeze, setIsBuyingFreeze] = useState(false);
+
+  useEffect(() => {
+    getStreakSummary(username).then(summary => setLongestStreak(summary.longest));
+    getStreakFreezeInventory(username).then(setFreezeInventory);
+  }, [username, userStats?.dailyStreak]);
 
   // Placeholder stats
   const stats = [
@@ -29,7 +66,7 @@ const ProfileScreen: React.FC<Props> = ({ userStats, username, onBack, onLogout
     { label: 'Questions Answered', value: '342', icon: '❓' },
     { label: 'Correct Answers', value: '287', icon: '✅' },
     { label: 'Accuracy', value: '84%', icon: '🎯' },
-    { label: 'Streak Record', value: '7 days', icon: '🔥' },
+    { label: 'Streak Record', value: `${longestStreak} ${longestStreak === 1 ? 'day' : 'days'}`, icon: '🔥' },
     { label: 'Courses Completed', value: '2', icon: '📚' },
     { label: 'Total Coins Earned', value: '1,250', icon: '💰' },
     { label: 'Current Level', value: '12', icon: '⭐' },
@@ -50,6 +87,62 @@ const ProfileScreen: React.FC<Props> = ({ userStats, username, onBack, onLogout
     );
   };
 
+  const handleBuyFreeze = async () => {
+    setIsBuyingFreeze(true);
+    try {
+      const result = await buyStreakFreeze(username);
+      if (result.success) {
+        setFreezeInventory(await getStreakFreezeInventory(username));
+        const updatedUserData = await getUserData(username);
+        if (updatedUserData && onCoinsUpdated) {
+          onCoinsUpdated(updatedUserData.knowledgeCoins);
+        }
+        Alert.alert('Success', 'Streak freeze bought! It is used automatically if you miss a school day.');
+      } else if (result.message === 'Not enough coins') {
+        Alert.alert('Not Enough Coins', `You need ${STREAK_FREEZE_PRICE} coins for a streak freeze. Complete daily tasks to earn more coins!`);
+      } else {
+        Alert.alert('Error', result.message);
+      }
+    } catch (error) {
+      console.error('Error buying streak freeze:', error);
+      Alert.alert('Error', 'Failed to buy a streak freeze. Please try again.');
+    } finally {
+      setIsBuyingFreeze(false);
+    }
+  };
+
+  const closePasswordModal = () => {
+    setPasswordModalVisible(false);
+    setCurrentPassword('');
+    setNewPassword('');
+    setConfirmPassword('');
+    setPasswordError('');
+  };
+
+  const handleChangePassword = async () => {
+    if (!currentPassword || !newPassword) {
+      setPasswordError('Please fill in all fields');
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setPasswordError('New passwords do not match');
+      return;
+    }
+
+    setIsChangingPassword(true);
+    try {
+      const result = await changePassword(username, currentPassword, newPassword);
+      if (result.success) {
+        closePasswordModal();
+        Alert.alert('Success', 'Your password has been changed.');
+      } else {
+        setPasswordError(result.message || 'Failed to change password');
+      }
+    } finally {
+      setIsChangingPassword(false);
+    }
+  };
+
   return (
     <SafeAreaView style={styles.container}>
       <StatusBar barStyle="light-content" />
@@ -117,11 +210,130 @@ const ProfileScreen: React.FC<Props> = ({ userStats, username, onBack, onLogout
             </View>
             <View style={styles.accountInfoRow}>
               <Text style={styles.accountInfoLabel}>Purchased Courses</Text>
-              <Text style={styles.accountInfoValue}>{userStats?.purchasedCourses?.length || 0}</Text>
+              <Text style={styles.accountInfoValue}>
+                {(userStats?.purchasedCourses || []).filter(itemId => !isStreakFreezeId(itemId)).length}
+              </Text>
             </View>
           </View>
         </View>
 
+        {/* Streak Freeze Section */}
+        <View style={styles.accountSection}>
+          <Text style={styles.sectionTitle}>Streak Freezes</Text>
+          <View style={styles.accountInfoCard}>
+            <View style={styles.accountInfoRow}>
+              <Text style={styles.accountInfoLabel}>🧊 Available</Text>
+              <Text style={styles.accountInfoValue}>{freezeInventory.available.length} / {MAX_STREAK_FREEZES}</Text>
+            </View>
+            <Text style={styles.freezeHint}>
+              A freeze keeps your streak when you miss a school day. It is used automatically.
+            </Text>
+            <TouchableOpacity
+              style={[
+                styles.freezeBuyButton,
+                (isBuyingFreeze || freezeInventory.available.length >= MAX_STREAK_FREEZES) && { opacity: 0.6 },
+              ]}
+              onPress={handleBuyFreeze}
+              disabled={isBuyingFreeze || freezeInventory.available.length >= MAX_STREAK_FREEZES}
+              activeOpacity={0.8}
+            >
+              {isBuyingFreeze ? (
+                <ActivityIndicator color="#052e16" />
+              ) : (
+                <Text style={styles.freezeBuyButtonText}>Buy for {STREAK_FREEZE_PRICE} coins</Text>
+              )}
+            </TouchableOpacity>
+            {freezeInventory.uses.length > 0 && (
+              <>
+                <Text style={styles.freezeHistoryTitle}>Used</Text>
+                {[...freezeInventory.uses].reverse().map(use => (
+                  <View key={`${use.freezeId}-${use.date}`} style={styles.accountInfoRow}>
+                    <Text style={styles.accountInfoLabel}>Missed {use.date}</Text>
+                    <Text style={styles.accountInfoValue}>🧊 Streak kept</Text>
+                  </View>
+                ))}
+              </>
+            )}
+          </View>
+        </View>
+
+        {/* Lesson Editor Button */}
+        {onEditLessons && (
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={onEditLessons}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.secondaryButtonText}>✏️ Edit lessons</Text>
+          </TouchableOpacity>
+        )}
+
+        {/* Reminder Notifications Button */}
+        {onEditNotifications && (
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={onEditNotifications}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.secondaryButtonText}>🔔 Reminder notifications</Text>
+          </TouchableOpacity>
+        )}
+
+        {/* AI Provider Button */}
+        {onEditAiProvider && (
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={onEditAiProvider}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.secondaryButtonText}>🤖 AI provider</Text>
+          </TouchableOpacity>
+        )}
+
+        {/* Daily Task Rules Button */}
+        {onEditFilters && (
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={onEditFilters}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.secondaryButtonText}>🧹 Daily task rules</Text>
+          </TouchableOpacity>
+        )}
+
+        {/* E-klase Import Button */}
+        {onImportEklase && (
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={onImportEklase}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.secondaryButtonText}>
+              {eklaseNeedsReconnect ? '🔄 Reconnect E-klase' : '📥 Import from E-klase'}
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        {/* Timetable File Import Button */}
+        {onImportTimetable && (
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={onImportTimetable}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.secondaryButtonText}>📄 Import timetable file</Text>
+          </TouchableOpacity>
+        )}
+
+        {/* Change Password Button */}
+        <TouchableOpacity
+          style={styles.secondaryButton}
+          onPress={() => setPasswordModalVisible(true)}
+          activeOpacity={0.8}
+        >
+          <Text style={styles.secondaryButtonText}>🔑 Change Password</Text>
+        </TouchableOpacity>
+
         {/* Logout Button */}
         <TouchableOpacity
           style={styles.logoutButton}
@@ -133,6 +345,67 @@ const ProfileScreen: React.FC<Props> = ({ userStats, username, onBack, onLogout
 
         <View style={{ height: 40 }} />
       </ScrollView>
+
+      {/* Change Password Modal */}
+      <Modal transparent visible={passwordModalVisible} animationType="fade" onRequestClose={closePasswordModal}>
+        <View style={styles.modalBackdrop}>
+          <View style={styles.modalCard}>
+            <Text style={styles.modalTitle}>Change Password</Text>
+            <TextInput
+              value={currentPassword}
+              onChangeText={(text) => {
+                setCurrentPassword(text);
+                setPasswordError('');
+              }}
+              secureTextEntry
+              placeholder="Current password"
+              placeholderTextColor="#64748b"
+              style={styles.modalInput}
+              editable={!isChangingPassword}
+            />
+            <TextInput
+              value={newPassword}
+              onChangeText={(text) => {
+                setNewPassword(text);
+                setPasswordError('');
+              }}
+              secureTextEntry
+              placeholder="New password"
+              placeholderTextColor="#64748b"
+              style={styles.modalInput}
+              editable={!isChangingPassword}
+            />
+            <TextInput
+              value={confirmPassword}
+              onChangeText={(text) => {
+                setConfirmPassword(text);
+                setPasswordError('');
+              }}
+              secureTextEntry
+              placeholder="Repeat new password"
+              placeholderTextColor="#64748b"
+              style={styles.modalInput}
+              editable={!isChangingPassword}
+              onSubmitEditing={handleChangePassword}
+            />
+            {!!passwordError && <Text style={styles.modalErrorText}>{passwordError}</Text>}
+            <TouchableOpacity
+              style={[styles.modalSubmit, isChangingPassword && { opacity: 0.6 }]}
+              onPress={handleChangePassword}
+              disabled={isChangingPassword}
+            >
+              {isChangingPassword ? (
+                <ActivityIndicator color="#052e16" />
+              ) : (
+                <Text style={styles.modalSubmitText}>Save</Text>
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.modalClose} onPress={closePasswordModal} disabled={isChangingPassword}>
+              <Text style={styles.modalCloseText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
     </SafeAreaView>
   );
 };
@@ -280,6 +553,41 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '700',
   },
+  freezeHint: {
+    color: '#94a3b8',
+    fontSize: 12,
+    marginTop: 10,
+  },
+  freezeBuyButton: {
+    backgroundColor: '#22c55e',
+    borderRadius: 10,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  freezeBuyButtonText: {
+    color: '#052e16',
+    fontSize: 14,
+    fontWeight: '800',
+  },
+  freezeHistoryTitle: {
+    color: '#f8fafc',
+    fontSize: 14,
+    fontWeight: '700',
+    marginTop: 14,
+  },
+  secondaryButton: {
+    backgroundColor: '#334155',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  secondaryButtonText: {
+    color: '#f8fafc',
+    fontSize: 16,
+    fontWeight: '700',
+  },
   logoutButton: {
     backgroundColor: '#ef4444',
     borderRadius: 12,
@@ -292,6 +600,54 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '700',
   },
+  modalBackdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  modalCard: {
+    width: '84%',
+    backgroundColor: '#1f2937',
+    borderRadius: 14,
+    padding: 16,
+    gap: 10,
+  },
+  modalTitle: {
+    color: '#f8fafc',
+    fontSize: 16,
+    fontWeight: '800',
+  },
+  modalInput: {
+    backgroundColor: '#2a2a2a',
+    borderRadius: 10,
+    height: 44,
+    paddingHorizontal: 12,
+    color: '#e2e8f0',
+  },
+  modalErrorText: {
+    color: '#ef4444',
+    fontSize: 12,
+  },
+  modalSubmit: {
+    marginTop: 4,
+    backgroundColor: '#22c55e',
+    borderRadius: 10,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  modalSubmitText: {
+    color: '#052e16',
+    fontSize: 14,
+    fontWeight: '800',
+  },
+  modalClose: {
+    alignItems: 'center',
+  },
+  modalCloseText: {
+    color: '#94a3b8',
+    fontSize: 14,
+  },
 });
 
 export default ProfileScreen;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import {
   View,
   Text,
@@ -9,8 +9,15 @@ import {
   StatusBar,
   ActivityIndicator,
   Alert,
+  TextInput,
 } from 'react-native';
-import { generateRemindersForSubjects, ReminderResponse } from '../utils/openai';
+import { generateRemindersForSubjects, gradeFreeTextAnswer, ReminderLanguage, ReminderLesson, ReminderResponse, ReminderSource, ReminderTask } from '../utils/reminderGenerator';
+import { DEFAULT_AI_SETTINGS, createAiProvider, getAiProvider, getAiSettings } from '../utils/aiProviders';
+import { MAX_FREE_TEXT_LENGTH, REMINDER_LANGUAGES } from '../utils/reminderPrompt';
+import { TaskAnswer, getTaskScore, gradeTask, parseNumber, shuffleItems } from '../utils/taskGrading';
+import { recordReminderSession } from '../utils/streak';
+import { recordQuizResult } from '../utils/mastery';
+import { DEFAULT_FILTER_RULES, getAllowedSubjects, getFilterRules, SubjectFilterRules } from '../utils/subjectFilters';
 import { Lesson, updateUserStats, getUserData, markSubjectCompleted, areAllDailyTasksCompleted, addCoins, hasClaimedCompletionBonusToday, claimCompletionBonus } from '../utils/database';
 
 type Props = {
@@ -21,12 +28,58 @@ type Props = {
   onCoinsUpdated?: (coins: number) => void;
 };
 
+const formatGeneratedAt = (iso?: string): string => {
+  if (!iso) return 'earlier';
+  const date = new Date(iso);
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }) +
+    ' ' + date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+};
+
+const formatNumber = (value: number): string => String(Number(value.toPrecision(12)));
+
+const formatCorrectAnswer = (task: ReminderTask): string => {
+  switch (task.type) {
+    case 'multipleChoice':
+      return `${String.fromCharCode(65 + task.correctAnswer)}. ${task.options[task.correctAnswer]}`;
+    case 'trueFalse':
+      return task.correctAnswer ? 'True' : 'False';
+    case 'fillBlank':
+      return task.acceptedAnswers.join(' / ');
+    case 'ordering':
+      return task.items.join(' → ');
+    case 'numeric':
+      return formatNumber(task.answer) +
+        (task.tolerance > 0 ? ` ± ${formatNumber(task.tolerance)}` : '') +
+        (task.unit ? ` ${task.unit}` : '');
+    case 'freeText':
+      return task.sampleAnswer;
+  }
+};
+
+// 5 coins for answering, up to 10 for full credit; partial credit (free text) lands in between
+const getCoinsForScore = (score: number): number => 5 + Math.round(5 * score);
+
 const ReminderScreen: React.FC<Props> = ({ selectedSubjects, lessons, onClose, username, onCoinsUpdated }) => {
   const [currentSubjectIndex, setCurrentSubjectIndex] = useState(0);
   const [currentTaskIndex, setCurrentTaskIndex] = useState(0);
-  const [selectedAnswer, setSelectedAnswer] = useState<number | null>(null);
+  const [selectedAnswer, setSelectedAnswer] = useState<TaskAnswer | null>(null);
+  // Typed answer (fill in the blank, numeric) and the student's current order for ordering tasks
+  const [textAnswer, setTextAnswer] = useState('');
+  const [itemOrder, setItemOrder] = useState<string[]>([]);
+  const [answerError, setAnswerError] = useState<string | null>(null);
+  const [isGrading, setIsGrading] = useState(false);
   const [currentPage, setCurrentPage] = useState<'theory1' | 'theory2' | 'task' | 'explanation' | 'completion'>('theory1');
   const [reminders, setReminders] = useState<Map<string, ReminderResponse>>(new Map());
+  const [reminderSources, setReminderSources] = useState<Map<string, ReminderSource>>(new Map());
+  const [reminderDates, setReminderDates] = useState<Map<string, string>>(new Map());
+  // Language from the AI settings, unless the student translated that subject
+  const [language, setLanguage] = useState<ReminderLanguage>(DEFAULT_AI_SETTINGS.language);
+  const [reminderLanguages, setReminderLanguages] = useState<Map<string, ReminderLanguage>>(new Map());
+  const [isRegenerating, setIsRegenerating] = useState(false);
+  // Subjects keep arriving after the first one is shown
+  const [isGenerating, setIsGenerating] = useState(false);
+  // Bumped on every load and on unmount, so a superseded load stops updating the screen
+  const loadIdRef = useRef(0);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [totalCoinsEarned, setTotalCoinsEarned] = useState(0);
@@ -38,11 +91,12 @@ const ReminderScreen: React.FC<Props> = ({ selectedSubjects, lessons, onClose, u
   const [awardedBonuses, setAwardedBonuses] = useState<Set<string>>(new Set()); // Track which bonuses have been awarded
   const [canClaimCompletionBonus, setCanClaimCompletionBonus] = useState(false); // Track if completion bonus can be claimed
   const [hasClaimedBonus, setHasClaimedBonus] = useState(false); // Track if bonus was claimed in this session
+  const [filterRules, setFilterRules] = useState<SubjectFilterRules>(DEFAULT_FILTER_RULES);
 
   // Get the list of subjects to display
   const allUniqueSubjects = useMemo(() => 
-    Array.from(new Set(lessons.map(l => l.subject))).filter(s => s), 
-    [lessons]
+    getAllowedSubjects(lessons, filterRules), 
+    [lessons, filterRules]
   );
   
   const subjectsToDisplay = useMemo(() => 
@@ -55,6 +109,15 @@ const ReminderScreen: React.FC<Props> = ({ selectedSubjects, lessons, onClose, u
   const currentSubject = subjectsToDisplay[currentSubjectIndex];
   const currentReminder = currentSubject ? reminders.get(currentSubject) : undefined;
   const currentTask = currentReminder?.tasks[currentTaskIndex];
+  const currentLanguage = (currentSubject && reminderLanguages.get(currentSubject)) || language;
+  const otherLanguage: ReminderLanguage = currentLanguage === 'lv' ? 'en' : 'lv';
+
+  // Fresh inputs for every task; ordering items start shuffled
+  useEffect(() => {
+    setTextAnswer('');
+    setAnswerError(null);
+    setItemOrder(currentTask?.type === 'ordering' ? shuffleItems(currentTask.items) : []);
+  }, [currentTask]);
 
   useEffect(() => {
     // Reset coin tracking when starting new reminder session
@@ -68,14 +131,33 @@ const ReminderScreen: React.FC<Props> = ({ selectedSubjects, lessons, onClose, u
     setCanClaimCompletionBonus(false); // Reset bonus claim status
     setHasClaimedBonus(false); // Reset bonus claimed status
     loadReminders();
+    return () => {
+      loadIdRef.current++;
+    };
   }, [selectedSubjects, lessons]);
 
+  const getReminderLessons = (): ReminderLesson[] => lessons.map(l => ({
+    subject: l.subject,
+    topic: l.topic || '',
+    homework: l.homework || '',
+    date: l.date,
+  }));
+
   const loadReminders = async () => {
+    const loadId = ++loadIdRef.current;
+    const isSuperseded = () => loadIdRef.current !== loadId;
     setIsLoading(true);
     setError(null);
+    setReminders(new Map());
+    setReminderSources(new Map());
+    setReminderDates(new Map());
+    setReminderLanguages(new Map());
     
     try {
-      const allUnique = Array.from(new Set(lessons.map(l => l.subject))).filter(s => s);
+      // Same subject rules as the daily task list
+      const rules = username ? await getFilterRules(username) : DEFAULT_FILTER_RULES;
+      setFilterRules(rules);
+      const allUnique = getAllowedSubjects(lessons, rules);
       const subjectsToRemind = selectedSubjects.length > 0 
         ? selectedSubjects.filter(s => allUnique.includes(s))
         : allUnique;
@@ -86,24 +168,74 @@ const ReminderScreen: React.FC<Props> = ({ selectedSubjects, lessons, onClose, u
         return;
       }
       
-      const subjectLessons = lessons.map(l => ({
-        subject: l.subject,
-        topic: l.topic || '',
-        homework: l.homework || '',
-        date: l.date,
-      }));
-      
-      const generatedReminders = await generateRemindersForSubjects(subjectsToRemind, subjectLessons);
-      setReminders(generatedReminders);
+      const settings = username ? await getAiSettings(username) : DEFAULT_AI_SETTINGS;
+      setLanguage(settings.language);
+      setIsGenerating(true);
+      // The screen opens with the first reminder that arrives; the rest fill in while the student reads
+      await generateRemindersForSubjects(createAiProvider(settings), subjectsToRemind, getReminderLessons(), {
+        username,
+        language: settings.language,
+        concurrency: settings.concurrency,
+        isCancelled: isSuperseded,
+        onReminder: (subject, reminder, source, generatedAt) => {
+          if (isSuperseded()) return;
+          setReminders(prev => new Map(prev).set(subject, reminder));
+          setReminderSources(prev => new Map(prev).set(subject, source));
+          setReminderDates(prev => new Map(prev).set(subject, generatedAt));
+          setIsLoading(false);
+        },
+      });
     } catch (err: any) {
+      if (isSuperseded()) return;
       console.error('Error loading reminders:', err);
-      setError(err.message || 'Failed to generate reminders. Make sure your Google Gemini API key is configured.');
+      setError(err.message || 'Failed to generate reminders. Check the AI provider in your profile settings.');
+    } finally {
+      if (!isSuperseded()) {
+        setIsGenerating(false);
+        setIsLoading(false);
+      }
+    }
+  };
+
+  // Replaces the current subject's reminder; a saved one in that language is reused unless regenerating
+  const replaceReminder = async (targetLanguage: ReminderLanguage, regenerate: boolean, title: string) => {
+    if (!currentSubject || isRegenerating) return;
+    setIsRegenerating(true);
+    try {
+      const provider = await getAiProvider(username);
+      const generated = await generateRemindersForSubjects(provider, [currentSubject], getReminderLessons(), {
+        username,
+        language: targetLanguage,
+        regenerate,
+      });
+      const source = generated.sources.get(currentSubject);
+      if (source === 'stale' || source === 'fallback') {
+        Alert.alert(title, 'Could not reach the AI. Keeping the current reminder.');
+        return;
+      }
+      const reminder = generated.reminders.get(currentSubject);
+      if (!reminder) return;
+      setReminders(prev => new Map(prev).set(currentSubject, reminder));
+      setReminderSources(prev => new Map(prev).set(currentSubject, source || 'generated'));
+      setReminderDates(prev => new Map(prev).set(currentSubject, generated.generatedAt.get(currentSubject) || ''));
+      setReminderLanguages(prev => new Map(prev).set(currentSubject, targetLanguage));
+      setCurrentTaskIndex(0);
+      setSelectedAnswer(null);
+      setCurrentPage('theory1');
+    } catch (err: any) {
+      console.error('Error replacing reminder:', err);
+      Alert.alert(title, err?.message || 'Could not reach the AI. Keeping the current reminder.');
     } finally {
-      setIsLoading(false);
+      setIsRegenerating(false);
     }
   };
 
-  const awardCoins = async (isCorrect: boolean, questionKey: string) => {
+  // Asks the AI for a new reminder for the current subject, replacing the cached one
+  const handleRegenerate = () => replaceReminder(currentLanguage, true, 'Regenerate');
+
+  const handleTranslate = () => replaceReminder(otherLanguage, false, 'Translate');
+
+  const awardCoins = async (score: number, questionKey: string) => {
     if (!username) return;
     
     // Check if we've already awarded coins for this question
@@ -112,8 +244,8 @@ const ReminderScreen: React.FC<Props> = ({ selectedSubjects, lessons, onClose, u
       return;
     }
     
-    const coinsToAward = isCorrect ? 10 : 5;
-    console.log(`[awardCoins] Awarding ${coinsToAward} coins for question: ${questionKey}, Correct: ${isCorrect}`);
+    const coinsToAward = getCoinsForScore(score);
+    console.log(`[awardCoins] Awarding ${coinsToAward} coins for question: ${questionKey}, Score: ${score}`);
     
     setTotalCoinsEarned(prev => {
       const newTotal = prev + coinsToAward;
@@ -136,17 +268,23 @@ const ReminderScreen: React.FC<Props> = ({ selectedSubjects, lessons, onClose, u
     }
   };
 
-  const handleAnswerSelect = async (answerIndex: number) => {
+  const handleAnswerSelect = async (answer: TaskAnswer) => {
     if (selectedAnswer !== null || !currentTask || !currentSubject) return; // Already answered
     
     // Create a unique key for this question to prevent double-awarding
     const questionKey = `${currentSubject}-${currentTaskIndex}-${currentTask.question}`;
     
-    setSelectedAnswer(answerIndex);
-    const isCorrect = answerIndex === currentTask.correctAnswer;
+    setSelectedAnswer(answer);
+    const isCorrect = gradeTask(currentTask, answer);
     
-    // Award coins (10 for correct, 5 for wrong)
-    await awardCoins(isCorrect, questionKey);
+    // Award coins (10 for correct, 5 for wrong, in between for partial credit)
+    await awardCoins(getTaskScore(currentTask, answer), questionKey);
+
+    // Store the answer for the subject mastery model
+    if (username && !awardedQuestions.has(questionKey)) {
+      recordQuizResult(username, { subject: currentSubject, difficulty: currentTask.difficulty, correct: isCorrect })
+        .catch(error => console.error('Error recording quiz result:', error));
+    }
     
     // Track correct answers globally
     if (isCorrect) {
@@ -167,10 +305,114 @@ const ReminderScreen: React.FC<Props> = ({ selectedSubjects, lessons, onClose, u
     setCurrentPage('explanation');
   };
 
+  // Typed answers are checked before grading, so a typo in a number isn't marked wrong
+  const handleSubmitTyped = async () => {
+    if (!currentTask || isGrading) return;
+    if (currentTask.type === 'numeric') {
+      const value = parseNumber(textAnswer, currentTask.unit);
+      if (value === null) {
+        setAnswerError('Enter a number, e.g. 2,5 or 3/4');
+        return;
+      }
+      handleAnswerSelect({ type: 'numeric', value });
+    } else if (currentTask.type === 'fillBlank') {
+      if (!textAnswer.trim()) {
+        setAnswerError('Type the missing word');
+        return;
+      }
+      handleAnswerSelect({ type: 'fillBlank', text: textAnswer });
+    } else if (currentTask.type === 'freeText') {
+      const text = textAnswer.trim();
+      if (!text) {
+        setAnswerError('Write your answer first');
+        return;
+      }
+      setIsGrading(true);
+      try {
+        const grade = await gradeFreeTextAnswer(await getAiProvider(username), currentTask, text, currentLanguage);
+        await handleAnswerSelect({ type: 'freeText', text, grade });
+      } catch (err: any) {
+        // Nothing is recorded, so the student can simply try again
+        console.error('Error grading answer:', err);
+        setAnswerError(`Could not grade your answer: ${err?.message || 'the AI did not answer'}. Try again.`);
+      } finally {
+        setIsGrading(false);
+      }
+    }
+  };
+
+  const moveItem = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= itemOrder.length) return;
+    const next = [...itemOrder];
+    [next[index], next[target]] = [next[target], next[index]];
+    setItemOrder(next);
+  };
+
+  // Marks the current subject done and moves on to the next subject or the completion page
+  const finishSubject = async () => {
+    // All tasks done for this subject
+    if (currentSubject && username) {
+      await markSubjectCompleted(username, currentSubject);
+      
+      // Check if user got all questions correct for this subject (3/3)
+      const subjectCorrect = subjectCorrectAnswers.get(currentSubject) || 0;
+      const subjectTotal = subjectTotalQuestions.get(currentSubject) || 0;
+      
+      // Only award bonus if we have exactly 3 questions and all correct, and haven't awarded it yet
+      const perfectScoreBonusKey = `perfect-${currentSubject}`;
+      if (subjectTotal === 3 && subjectCorrect === 3 && currentReminder?.tasks.length === 3 && !awardedBonuses.has(perfectScoreBonusKey)) {
+        // Award +20 bonus coins for perfect score (3/3)
+        console.log(`[handleNext] Awarding perfect score bonus (20 coins) for subject: ${currentSubject}`);
+        setAwardedBonuses(prev => new Set(prev).add(perfectScoreBonusKey));
+        const newCoins = await addCoins(username, 20);
+        setTotalCoinsEarned(prev => prev + 20);
+        if (onCoinsUpdated) {
+          onCoinsUpdated(newCoins);
+        }
+      }
+    }
+    
+    // Move to next subject or show completion
+    if (currentSubjectIndex < subjectsToDisplay.length - 1) {
+      setCurrentSubjectIndex(currentSubjectIndex + 1);
+      setCurrentTaskIndex(0);
+      setSelectedAnswer(null);
+      setCurrentPage('theory1');
+    } else {
+      // All subjects and tasks completed - check if all daily tasks are done
+      if (username && subjectsToDisplay.length > 0) {
+        const allCompleted = await areAllDailyTasksCompleted(username, subjectsToDisplay.length);
+        if (allCompleted) {
+          // Check if bonus can be claimed (not claimed today)
+          const alreadyClaimed = await hasClaimedCompletionBonusToday(username);
+          setCanClaimCompletionBonus(!alreadyClaimed);
+        } else {
+          setCanClaimCompletionBonus(false);
+        }
+      }
+      // A finished session counts towards today's streak
+      if (username) {
+        try {
+          await recordReminderSession(username, subjectsToDisplay, correctAnswers, totalQuestions);
+        } catch (error) {
+          console.error('Error recording reminder session:', error);
+        }
+      }
+      // Show completion screen
+      setCurrentPage('completion');
+    }
+  };
+
   const handleNext = async () => {
     if (currentPage === 'theory1') {
       setCurrentPage('theory2');
     } else if (currentPage === 'theory2') {
+      // A fallback reminder has no tasks
+      if (!currentReminder?.tasks.length) {
+        await finishSubject();
+        return;
+      }
       // After theory, go directly to first task
       setCurrentTaskIndex(0);
       setSelectedAnswer(null);
@@ -182,49 +424,7 @@ const ReminderScreen: React.FC<Props> = ({ selectedSubjects, lessons, onClose, u
         setSelectedAnswer(null);
         setCurrentPage('task');
       } else {
-        // All tasks done for this subject
-        if (currentSubject && username) {
-          await markSubjectCompleted(username, currentSubject);
-          
-          // Check if user got all questions correct for this subject (3/3)
-          const subjectCorrect = subjectCorrectAnswers.get(currentSubject) || 0;
-          const subjectTotal = subjectTotalQuestions.get(currentSubject) || 0;
-          
-          // Only award bonus if we have exactly 3 questions and all correct, and haven't awarded it yet
-          const perfectScoreBonusKey = `perfect-${currentSubject}`;
-          if (subjectTotal === 3 && subjectCorrect === 3 && currentReminder?.tasks.length === 3 && !awardedBonuses.has(perfectScoreBonusKey)) {
-            // Award +20 bonus coins for perfect score (3/3)
-            console.log(`[handleNext] Awarding perfect score bonus (20 coins) for subject: ${currentSubject}`);
-            setAwardedBonuses(prev => new Set(prev).add(perfectScoreBonusKey));
-            const newCoins = await addCoins(username, 20);
-            setTotalCoinsEarned(prev => prev + 20);
-            if (onCoinsUpdated) {
-              onCoinsUpdated(newCoins);
-            }
-          }
-        }
-        
-        // Move to next subject or show completion
-        if (currentSubjectIndex < subjectsToDisplay.length - 1) {
-          setCurrentSubjectIndex(currentSubjectIndex + 1);
-          setCurrentTaskIndex(0);
-          setSelectedAnswer(null);
-          setCurrentPage('theory1');
-        } else {
-          // All subjects and tasks completed - check if all daily tasks are done
-          if (username && subjectsToDisplay.length > 0) {
-            const allCompleted = await areAllDailyTasksCompleted(username, subjectsToDisplay.length);
-            if (allCompleted) {
-              // Check if bonus can be claimed (not claimed today)
-              const alreadyClaimed = await hasClaimedCompletionBonusToday(username);
-              setCanClaimCompletionBonus(!alreadyClaimed);
-            } else {
-              setCanClaimCompletionBonus(false);
-            }
-          }
-          // Show completion screen
-          setCurrentPage('completion');
-        }
+        await finishSubject();
       }
     }
   };
@@ -272,7 +472,25 @@ const ReminderScreen: React.FC<Props> = ({ selectedSubjects, lessons, onClose, u
           <Text style={styles.errorTitle}>⚠️ Error</Text>
           <Text style={styles.errorText}>{error}</Text>
           <Text style={styles.errorHint}>
-            Make sure your Google Gemini API key is set in the configuration.
+            Check the AI provider and its API key under Profile → AI provider.
+          </Text>
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <Text style={styles.closeButtonText}>Go Back</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!currentReminder && isGenerating) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <StatusBar barStyle="light-content" />
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#22c55e" />
+          <Text style={styles.loadingText}>Generating {currentSubject}...</Text>
+          <Text style={styles.loadingSubtext}>
+            {reminders.size} of {subjectsToDisplay.length} subjects ready
           </Text>
           <TouchableOpacity style={styles.closeButton} onPress={onClose}>
             <Text style={styles.closeButtonText}>Go Back</Text>
@@ -303,8 +521,271 @@ const ReminderScreen: React.FC<Props> = ({ selectedSubjects, lessons, onClose, u
   const theoryPage1 = theoryWords.slice(0, midPoint).join(' ');
   const theoryPage2 = theoryWords.slice(midPoint).join(' ');
 
-  const isCorrect = selectedAnswer !== null && currentTask && selectedAnswer === currentTask.correctAnswer;
-  const coinsForThisAnswer = isCorrect ? 10 : (selectedAnswer !== null ? 5 : 0);
+  const currentSource = reminderSources.get(currentSubject) || 'generated';
+  // Only before answering, so regenerating can't earn coins twice for a subject
+  const canRegenerate = !(subjectTotalQuestions.get(currentSubject) || 0);
+
+  const isCorrect = selectedAnswer !== null && !!currentTask && gradeTask(currentTask, selectedAnswer);
+  const answerScore = selectedAnswer !== null && currentTask ? getTaskScore(currentTask, selectedAnswer) : 0;
+  const coinsForThisAnswer = selectedAnswer !== null ? getCoinsForScore(answerScore) : 0;
+
+  const renderTaskInput = (task: ReminderTask) => {
+    switch (task.type) {
+      case 'multipleChoice':
+      case 'trueFalse': {
+        const labels = task.type === 'multipleChoice'
+          ? task.options.map((option, index) => `${String.fromCharCode(65 + index)}. ${option}`)
+          : ['True', 'False'];
+        const toAnswer = (index: number): TaskAnswer => task.type === 'multipleChoice'
+          ? { type: 'multipleChoice', index }
+          : { type: 'trueFalse', value: index === 0 };
+        return (
+          <View style={styles.optionsContainer}>
+            {labels.map((label, index) => (
+              <TouchableOpacity
+                key={index}
+                style={styles.optionButton}
+                onPress={() => handleAnswerSelect(toAnswer(index))}
+                disabled={selectedAnswer !== null}
+              >
+                <Text style={styles.optionText}>{label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        );
+      }
+      case 'fillBlank':
+      case 'numeric':
+        return (
+          <View style={styles.optionsContainer}>
+            <View style={styles.answerRow}>
+              <TextInput
+                value={textAnswer}
+                onChangeText={(value) => {
+                  setTextAnswer(value);
+                  setAnswerError(null);
+                }}
+                onSubmitEditing={handleSubmitTyped}
+                placeholder={task.type === 'numeric' ? 'Your answer, e.g. 2,5' : 'Missing word'}
+                placeholderTextColor="#64748b"
+                keyboardType={task.type === 'numeric' ? 'numbers-and-punctuation' : 'default'}
+                autoCapitalize="none"
+                autoCorrect={false}
+                returnKeyType="done"
+                style={styles.answerInput}
+              />
+              {task.type === 'numeric' && !!task.unit && <Text style={styles.unitText}>{task.unit}</Text>}
+            </View>
+            {!!answerError && <Text style={styles.answerErrorText}>{answerError}</Text>}
+            <TouchableOpacity style={styles.checkButton} onPress={handleSubmitTyped}>
+              <Text style={styles.checkButtonText}>Check answer</Text>
+            </TouchableOpacity>
+          </View>
+        );
+      case 'freeText':
+        return (
+          <View style={styles.optionsContainer}>
+            <View style={styles.rubricBox}>
+              <Text style={styles.correctAnswerLabel}>Graded on</Text>
+              {task.rubric.map((item, index) => (
+                <Text key={index} style={styles.rubricText}>• {item.criterion} ({item.points} pt)</Text>
+              ))}
+            </View>
+            <TextInput
+              value={textAnswer}
+              onChangeText={(value) => {
+                setTextAnswer(value);
+                setAnswerError(null);
+              }}
+              placeholder="Write your answer in a few sentences"
+              placeholderTextColor="#64748b"
+              multiline
+              maxLength={MAX_FREE_TEXT_LENGTH}
+              editable={!isGrading}
+              style={[styles.answerInput, styles.answerInputMultiline]}
+            />
+            <Text style={styles.answerCounter}>{textAnswer.length}/{MAX_FREE_TEXT_LENGTH}</Text>
+            {!!answerError && <Text style={styles.answerErrorText}>{answerError}</Text>}
+            <TouchableOpacity
+              style={[styles.checkButton, isGrading && { opacity: 0.6 }]}
+              onPress={handleSubmitTyped}
+              disabled={isGrading}
+            >
+              {isGrading ? (
+                <ActivityIndicator color="#052e16" />
+              ) : (
+                <Text style={styles.checkButtonText}>Submit for grading</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        );
+      case 'ordering':
+        return (
+          <View style={styles.optionsContainer}>
+            {itemOrder.map((item, index) => (
+              <View key={item} style={styles.optionButton}>
+                <Text style={styles.optionText}>{index + 1}. {item}</Text>
+                <View style={styles.orderControls}>
+                  <TouchableOpacity
+                    style={[styles.orderButton, index === 0 && styles.orderButtonDisabled]}
+                    onPress={() => moveItem(index, -1)}
+                    disabled={index === 0}
+                  >
+                    <Text style={styles.orderButtonText}>↑</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.orderButton, index === itemOrder.length - 1 && styles.orderButtonDisabled]}
+                    onPress={() => moveItem(index, 1)}
+                    disabled={index === itemOrder.length - 1}
+                  >
+                    <Text style={styles.orderButtonText}>↓</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            ))}
+            <TouchableOpacity
+              style={styles.checkButton}
+              onPress={() => handleAnswerSelect({ type: 'ordering', items: itemOrder })}
+            >
+              <Text style={styles.checkButtonText}>Check order</Text>
+            </TouchableOpacity>
+          </View>
+        );
+    }
+  };
+
+  const renderAnswerReview = (task: ReminderTask, answer: TaskAnswer) => {
+    if (task.type === 'multipleChoice' || task.type === 'trueFalse') {
+      const labels = task.type === 'multipleChoice'
+        ? task.options.map((option, index) => `${String.fromCharCode(65 + index)}. ${option}`)
+        : ['True', 'False'];
+      const correctIndex = task.type === 'multipleChoice' ? task.correctAnswer : (task.correctAnswer ? 0 : 1);
+      const selectedIndex = answer.type === 'multipleChoice' ? answer.index : answer.type === 'trueFalse' ? (answer.value ? 0 : 1) : -1;
+      return (
+        <View style={styles.optionsContainer}>
+          {labels.map((label, index) => {
+            const isSelected = selectedIndex === index;
+            const isCorrectOption = index === correctIndex;
+            
+            return (
+              <View
+                key={index}
+                style={[
+                  styles.optionButton,
+                  styles.optionButtonDisabled,
+                  isCorrectOption && styles.optionCorrect,
+                  isSelected && !isCorrectOption && styles.optionIncorrect,
+                ]}
+              >
+                <Text style={[
+                  styles.optionText,
+                  isCorrectOption && styles.optionTextCorrect,
+                  isSelected && !isCorrectOption && styles.optionTextIncorrect,
+                ]}>
+                  {label}
+                </Text>
+                {isCorrectOption && (
+                  <Text style={[styles.optionIcon, styles.optionIconCorrect]}>✓ Correct</Text>
+                )}
+                {isSelected && !isCorrectOption && (
+                  <Text style={[styles.optionIcon, styles.optionIconIncorrect]}>✗ Your answer</Text>
+                )}
+              </View>
+            );
+          })}
+        </View>
+      );
+    }
+
+    if (task.type === 'ordering') {
+      const submitted = answer.type === 'ordering' ? answer.items : [];
+      return (
+        <View style={styles.optionsContainer}>
+          {task.items.map((item, index) => {
+            const isInPlace = submitted[index] === item;
+            return (
+              <View
+                key={item}
+                style={[styles.optionButton, styles.optionButtonDisabled, isInPlace ? styles.optionCorrect : styles.optionIncorrect]}
+              >
+                <Text style={[styles.optionText, isInPlace ? styles.optionTextCorrect : styles.optionTextIncorrect]}>
+                  {index + 1}. {item}
+                </Text>
+                <Text style={[styles.optionIcon, isInPlace ? styles.optionIconCorrect : styles.optionIconIncorrect]}>
+                  {isInPlace ? '✓' : `✗ You: ${submitted.indexOf(item) + 1}`}
+                </Text>
+              </View>
+            );
+          })}
+        </View>
+      );
+    }
+
+    if (task.type === 'freeText' && answer.type === 'freeText') {
+      const { grade } = answer;
+      return (
+        <View style={styles.optionsContainer}>
+          <View style={styles.answerBox}>
+            <Text style={styles.correctAnswerLabel}>Your answer</Text>
+            <Text style={styles.optionText}>{answer.text}</Text>
+          </View>
+          <Text style={styles.scoreText}>Score: {grade.points} / {grade.maxPoints} points</Text>
+          {grade.criteria.map((criterion, index) => {
+            const isFull = criterion.points >= criterion.maxPoints;
+            const isNone = criterion.points === 0;
+            return (
+              <View
+                key={index}
+                style={[
+                  styles.criterionCard,
+                  isFull ? styles.optionCorrect : isNone ? styles.optionIncorrect : styles.optionPartial,
+                ]}
+              >
+                <View style={styles.criterionHeader}>
+                  <Text style={[styles.optionText, styles.criterionTitle]}>{criterion.criterion}</Text>
+                  <Text style={[
+                    styles.criterionPoints,
+                    isFull ? styles.optionIconCorrect : isNone ? styles.optionIconIncorrect : styles.optionIconPartial,
+                  ]}>
+                    {criterion.points}/{criterion.maxPoints}
+                  </Text>
+                </View>
+                {!!criterion.comment && <Text style={styles.criterionComment}>{criterion.comment}</Text>}
+              </View>
+            );
+          })}
+          <View style={styles.feedbackCard}>
+            <Text style={styles.explanationTitle}>📝 Feedback:</Text>
+            <Text style={styles.explanationText}>{grade.feedback}</Text>
+          </View>
+          <View style={styles.correctAnswerBox}>
+            <Text style={styles.correctAnswerLabel}>Model answer</Text>
+            <Text style={styles.correctAnswerText}>{task.sampleAnswer}</Text>
+          </View>
+        </View>
+      );
+    }
+
+    const given = answer.type === 'numeric'
+      ? formatNumber(answer.value) + (task.type === 'numeric' && task.unit ? ` ${task.unit}` : '')
+      : answer.type === 'fillBlank' ? answer.text.trim() : '';
+    return (
+      <View style={styles.optionsContainer}>
+        <View style={[styles.optionButton, styles.optionButtonDisabled, isCorrect ? styles.optionCorrect : styles.optionIncorrect]}>
+          <Text style={[styles.optionText, isCorrect ? styles.optionTextCorrect : styles.optionTextIncorrect]}>{given}</Text>
+          <Text style={[styles.optionIcon, isCorrect ? styles.optionIconCorrect : styles.optionIconIncorrect]}>
+            {isCorrect ? '✓ Correct' : '✗ Your answer'}
+          </Text>
+        </View>
+        {!isCorrect && (
+          <View style={styles.correctAnswerBox}>
+            <Text style={styles.correctAnswerLabel}>Correct answer</Text>
+            <Text style={styles.correctAnswerText}>{formatCorrectAnswer(task)}</Text>
+          </View>
+        )}
+      </View>
+    );
+  };
 
   return (
     <SafeAreaView style={styles.container}>
@@ -387,9 +868,31 @@ const ReminderScreen: React.FC<Props> = ({ selectedSubjects, lessons, onClose, u
           </View>
         </View>
       ) : (
-        <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+        <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer} keyboardShouldPersistTaps="handled">
           {currentPage === 'theory1' && (
             <View style={styles.page}>
+              {(currentSource !== 'generated' || canRegenerate) && (
+                <View style={styles.cacheRow}>
+                  <Text style={[styles.cacheText, currentSource === 'stale' && styles.cacheTextOffline]}>
+                    {currentSource === 'cached' && `💾 Saved reminder from ${formatGeneratedAt(reminderDates.get(currentSubject))}`}
+                    {currentSource === 'stale' && `📴 Offline: saved reminder from ${formatGeneratedAt(reminderDates.get(currentSubject))}`}
+                    {currentSource === 'fallback' && '📴 The AI is unavailable, so this is a general revision tip'}
+                    {currentSource === 'generated' && '✨ Freshly generated'}
+                  </Text>
+                  {canRegenerate && (isRegenerating ? (
+                    <ActivityIndicator size="small" color="#60a5fa" />
+                  ) : (
+                    <>
+                      <TouchableOpacity onPress={handleTranslate}>
+                        <Text style={styles.regenerateText}>🌐 {REMINDER_LANGUAGES[otherLanguage].nativeName}</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity onPress={handleRegenerate}>
+                        <Text style={styles.regenerateText}>🔄 Regenerate</Text>
+                      </TouchableOpacity>
+                    </>
+                  ))}
+                </View>
+              )}
               <Text style={styles.pageTitle}>📚 Theory - Part 1</Text>
               <Text style={styles.theoryText}>{theoryPage1}</Text>
             </View>
@@ -431,24 +934,7 @@ const ReminderScreen: React.FC<Props> = ({ selectedSubjects, lessons, onClose, u
               </View>
               
               <Text style={styles.taskQuestion}>{currentTask.question}</Text>
-              
-              <View style={styles.optionsContainer}>
-                {currentTask.options.map((option, index) => (
-                  <TouchableOpacity
-                    key={index}
-                    style={[
-                      styles.optionButton,
-                      selectedAnswer === index && styles.optionSelected,
-                    ]}
-                    onPress={() => handleAnswerSelect(index)}
-                    disabled={selectedAnswer !== null}
-                  >
-                    <Text style={styles.optionText}>
-                      {String.fromCharCode(65 + index)}. {option}
-                    </Text>
-                  </TouchableOpacity>
-                ))}
-              </View>
+              {renderTaskInput(currentTask)}
             </View>
           )}
 
@@ -456,7 +942,7 @@ const ReminderScreen: React.FC<Props> = ({ selectedSubjects, lessons, onClose, u
             <View style={styles.page}>
               <View style={styles.explanationHeader}>
                 <Text style={styles.pageTitle}>
-                  {isCorrect ? '✅ Correct!' : '❌ Incorrect'}
+                  {answerScore >= 1 ? '✅ Correct!' : answerScore > 0 ? `🟡 ${Math.round(answerScore * 100)}% right` : '❌ Incorrect'}
                 </Text>
                 <View style={styles.coinsBadge}>
                   <Text style={styles.coinsBadgeText}>+{coinsForThisAnswer} 🪙</Text>
@@ -465,38 +951,7 @@ const ReminderScreen: React.FC<Props> = ({ selectedSubjects, lessons, onClose, u
               
               <Text style={styles.taskQuestion}>{currentTask.question}</Text>
               
-              <View style={styles.optionsContainer}>
-                {currentTask.options.map((option, index) => {
-                  const isSelected = selectedAnswer === index;
-                  const isCorrectOption = index === currentTask.correctAnswer;
-                  
-                  return (
-                    <View
-                      key={index}
-                      style={[
-                        styles.optionButton,
-                        styles.optionButtonDisabled,
-                        isCorrectOption && styles.optionCorrect,
-                        isSelected && !isCorrectOption && styles.optionIncorrect,
-                      ]}
-                    >
-                      <Text style={[
-                        styles.optionText,
-                        isCorrectOption && styles.optionTextCorrect,
-                        isSelected && !isCorrectOption && styles.optionTextIncorrect,
-                      ]}>
-                        {String.fromCharCode(65 + index)}. {option}
-                      </Text>
-                      {isCorrectOption && (
-                        <Text style={[styles.optionIcon, styles.optionIconCorrect]}>✓ Correct</Text>
-                      )}
-                      {isSelected && !isCorrectOption && (
-                        <Text style={[styles.optionIcon, styles.optionIconIncorrect]}>✗ Your answer</Text>
-                      )}
-                    </View>
-                  );
-                })}
-              </View>
+              {renderAnswerReview(currentTask, selectedAnswer)}
               
               <View style={styles.explanationSection}>
                 <View style={[
@@ -639,6 +1094,32 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '700',
   },
+  cacheRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+    marginBottom: 12,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    backgroundColor: '#2a2a2a',
+    borderWidth: 1,
+    borderColor: '#334155',
+  },
+  cacheText: {
+    color: '#94a3b8',
+    fontSize: 12,
+    flex: 1,
+  },
+  cacheTextOffline: {
+    color: '#f59e0b',
+  },
+  regenerateText: {
+    color: '#60a5fa',
+    fontSize: 13,
+    fontWeight: '700',
+  },
   content: {
     flex: 1,
   },
@@ -719,6 +1200,133 @@ const styles = StyleSheet.create({
   optionButtonDisabled: {
     opacity: 0.8,
   },
+  answerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  answerInput: {
+    flex: 1,
+    backgroundColor: '#2a2a2a',
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#334155',
+    paddingHorizontal: 16,
+    height: 52,
+    color: '#e2e8f0',
+    fontSize: 16,
+  },
+  answerInputMultiline: {
+    height: 160,
+    paddingTop: 12,
+    paddingBottom: 12,
+    textAlignVertical: 'top',
+  },
+  answerCounter: {
+    color: '#64748b',
+    fontSize: 12,
+    textAlign: 'right',
+    marginTop: -4,
+  },
+  rubricBox: {
+    padding: 12,
+    backgroundColor: '#2a2a2a',
+    borderRadius: 8,
+    borderLeftWidth: 3,
+    borderLeftColor: '#60a5fa',
+    gap: 4,
+  },
+  rubricText: {
+    color: '#cbd5e1',
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  answerBox: {
+    padding: 16,
+    backgroundColor: '#2a2a2a',
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#334155',
+  },
+  scoreText: {
+    color: '#f8fafc',
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  criterionCard: {
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 2,
+    gap: 6,
+  },
+  criterionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  criterionTitle: {
+    fontWeight: '600',
+  },
+  criterionPoints: {
+    fontSize: 16,
+    fontWeight: '700',
+    marginLeft: 8,
+  },
+  criterionComment: {
+    color: '#cbd5e1',
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  feedbackCard: {
+    padding: 20,
+    borderRadius: 12,
+    backgroundColor: '#1e293b',
+    borderWidth: 2,
+    borderColor: '#60a5fa',
+  },
+  unitText: {
+    color: '#cbd5e1',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  answerErrorText: {
+    color: '#ef4444',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  checkButton: {
+    backgroundColor: '#22c55e',
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  checkButtonText: {
+    color: '#052e16',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  orderControls: {
+    flexDirection: 'row',
+    gap: 8,
+    marginLeft: 8,
+  },
+  orderButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#60a5fa',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  orderButtonDisabled: {
+    opacity: 0.3,
+  },
+  orderButtonText: {
+    color: '#60a5fa',
+    fontSize: 18,
+    fontWeight: '700',
+  },
   optionSelected: {
     borderColor: '#22c55e',
     backgroundColor: '#1e3a1e',
@@ -754,6 +1362,13 @@ const styles = StyleSheet.create({
   optionIconIncorrect: {
     color: '#ef4444',
   },
+  optionPartial: {
+    borderColor: '#f59e0b',
+    backgroundColor: '#3a2e1e',
+  },
+  optionIconPartial: {
+    color: '#f59e0b',
+  },
   explanationSection: {
     marginTop: 24,
   },
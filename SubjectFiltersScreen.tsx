@@ -0,0 +1,368 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  SafeAreaView,
+  StatusBar,
+  TouchableOpacity,
+  TextInput,
+  Switch,
+  ActivityIndicator,
+} from 'react-native';
+import { getLessons } from '../utils/database';
+import {
+  DEFAULT_FILTER_RULES,
+  SubjectFilterRules,
+  getFilterRules,
+  isSubjectExcluded,
+  saveFilterRules,
+} from '../utils/subjectFilters';
+
+type Props = {
+  username: string;
+  onBack: () => void;
+  onSaved: () => void;
+};
+
+const splitList = (value: string): string[] =>
+  value.split(',').map(item => item.trim()).filter(Boolean);
+
+const SubjectFiltersScreen: React.FC<Props> = ({ username, onBack, onSaved }) => {
+  const [rules, setRules] = useState<SubjectFilterRules>(DEFAULT_FILTER_RULES);
+  const [knownSubjects, setKnownSubjects] = useState<string[]>([]);
+  const [newExclusion, setNewExclusion] = useState('');
+  const [minLength, setMinLength] = useState(String(DEFAULT_FILTER_RULES.minHomeworkLength));
+  const [requiredKeywords, setRequiredKeywords] = useState('');
+  const [ignoredKeywords, setIgnoredKeywords] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [storedRules, lessons] = await Promise.all([getFilterRules(username), getLessons(username)]);
+        setRules(storedRules);
+        setMinLength(String(storedRules.minHomeworkLength));
+        setRequiredKeywords(storedRules.requiredKeywords.join(', '));
+        setIgnoredKeywords(storedRules.ignoredKeywords.join(', '));
+        setKnownSubjects(Array.from(new Set(lessons.map(lesson => lesson.subject).filter(Boolean))).sort());
+      } catch (err) {
+        console.error('Error loading subject filter rules:', err);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    load();
+  }, [username]);
+
+  const toggleSubject = (subject: string) => {
+    setRules(current => ({
+      ...current,
+      // Showing a subject again removes every name that hides it
+      excludedSubjects: isSubjectExcluded(subject, current)
+        ? current.excludedSubjects.filter(item => !subject.toLowerCase().includes(item.trim().toLowerCase()))
+        : [...current.excludedSubjects, subject],
+    }));
+  };
+
+  const addExclusion = () => {
+    const value = newExclusion.trim();
+    if (!value) return;
+    if (!rules.excludedSubjects.some(item => item.toLowerCase() === value.toLowerCase())) {
+      setRules({ ...rules, excludedSubjects: [...rules.excludedSubjects, value] });
+    }
+    setNewExclusion('');
+  };
+
+  const removeExclusion = (value: string) => {
+    setRules({ ...rules, excludedSubjects: rules.excludedSubjects.filter(item => item !== value) });
+  };
+
+  const handleSave = async () => {
+    const parsedLength = Number(minLength);
+    if (!Number.isInteger(parsedLength) || parsedLength < 1) {
+      setError('Minimum homework length must be a whole number of at least 1');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await saveFilterRules(username, {
+        ...rules,
+        minHomeworkLength: parsedLength,
+        requiredKeywords: splitList(requiredKeywords),
+        ignoredKeywords: splitList(ignoredKeywords),
+      });
+      onSaved();
+    } catch (err) {
+      console.error('Error saving subject filter rules:', err);
+      setError('Failed to save the rules');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" />
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onBack} style={styles.backButton}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Daily Task Rules</Text>
+        <View style={{ width: 60 }} />
+      </View>
+
+      {isLoading ? (
+        <ActivityIndicator color="#22c55e" style={{ marginTop: 24 }} />
+      ) : (
+        <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Subjects</Text>
+            <Text style={styles.hint}>Tap a subject to hide it from the daily tasks and reminders.</Text>
+            <View style={styles.chipRow}>
+              {knownSubjects.map(subject => {
+                const excluded = isSubjectExcluded(subject, rules);
+                return (
+                  <TouchableOpacity
+                    key={subject}
+                    style={[styles.chip, excluded && styles.chipExcluded]}
+                    onPress={() => toggleSubject(subject)}
+                  >
+                    <Text style={[styles.chipText, excluded && styles.chipTextExcluded]}>
+                      {excluded ? '✕ ' : ''}{subject}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <Text style={styles.label}>Hidden names (also hides subjects containing them)</Text>
+            {rules.excludedSubjects.map(value => (
+              <View key={value} style={styles.listRow}>
+                <Text style={styles.listText}>{value}</Text>
+                <TouchableOpacity onPress={() => removeExclusion(value)}>
+                  <Text style={styles.removeText}>Remove</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+            <View style={styles.addRow}>
+              <TextInput
+                value={newExclusion}
+                onChangeText={setNewExclusion}
+                placeholder="e.g. Klases stunda"
+                placeholderTextColor="#64748b"
+                style={[styles.input, { flex: 1 }]}
+                onSubmitEditing={addExclusion}
+              />
+              <TouchableOpacity style={styles.addButton} onPress={addExclusion}>
+                <Text style={styles.addButtonText}>Add</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Homework</Text>
+            <View style={styles.switchRow}>
+              <Text style={[styles.label, { flex: 1 }]}>Include lessons without homework</Text>
+              <Switch
+                value={rules.includeWithoutHomework}
+                onValueChange={(value) => setRules({ ...rules, includeWithoutHomework: value })}
+                trackColor={{ false: '#334155', true: '#22c55e' }}
+              />
+            </View>
+
+            <Text style={styles.label}>Minimum homework length (characters)</Text>
+            <TextInput
+              value={minLength}
+              onChangeText={(value) => {
+                setMinLength(value);
+                setError('');
+              }}
+              keyboardType="number-pad"
+              style={styles.input}
+            />
+
+            <Text style={styles.label}>Only homework mentioning (comma separated)</Text>
+            <TextInput
+              value={requiredKeywords}
+              onChangeText={setRequiredKeywords}
+              placeholder="e.g. uzd., lpp."
+              placeholderTextColor="#64748b"
+              style={styles.input}
+            />
+
+            <Text style={styles.label}>Ignore homework mentioning (comma separated)</Text>
+            <TextInput
+              value={ignoredKeywords}
+              onChangeText={setIgnoredKeywords}
+              placeholder="e.g. nav uzdots"
+              placeholderTextColor="#64748b"
+              style={styles.input}
+            />
+          </View>
+
+          {!!error && <Text style={styles.errorText}>{error}</Text>}
+
+          <TouchableOpacity
+            style={[styles.saveButton, isSaving && { opacity: 0.6 }]}
+            onPress={handleSave}
+            disabled={isSaving}
+            activeOpacity={0.8}
+          >
+            {isSaving ? <ActivityIndicator color="#052e16" /> : <Text style={styles.saveButtonText}>Save</Text>}
+          </TouchableOpacity>
+
+          <View style={{ height: 40 }} />
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1e1e1e',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#334155',
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  backButtonText: {
+    color: '#22c55e',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  headerTitle: {
+    color: '#f8fafc',
+    fontSize: 20,
+    fontWeight: '700',
+    flex: 1,
+    textAlign: 'center',
+  },
+  scrollContent: {
+    padding: 16,
+    gap: 12,
+  },
+  card: {
+    backgroundColor: '#2a2a2a',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#334155',
+    gap: 10,
+  },
+  cardTitle: {
+    color: '#f8fafc',
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  hint: {
+    color: '#94a3b8',
+    fontSize: 12,
+  },
+  label: {
+    color: '#e2e8f0',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    backgroundColor: '#22c55e',
+  },
+  chipExcluded: {
+    backgroundColor: '#334155',
+  },
+  chipText: {
+    color: '#052e16',
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  chipTextExcluded: {
+    color: '#94a3b8',
+  },
+  listRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#334155',
+  },
+  listText: {
+    color: '#f8fafc',
+    fontSize: 14,
+  },
+  removeText: {
+    color: '#ef4444',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  addRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  input: {
+    backgroundColor: '#1e1e1e',
+    borderRadius: 10,
+    height: 44,
+    paddingHorizontal: 12,
+    color: '#e2e8f0',
+    borderWidth: 1,
+    borderColor: '#334155',
+  },
+  addButton: {
+    backgroundColor: '#334155',
+    borderRadius: 10,
+    paddingHorizontal: 16,
+    justifyContent: 'center',
+  },
+  addButtonText: {
+    color: '#f8fafc',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  errorText: {
+    color: '#ef4444',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  saveButton: {
+    backgroundColor: '#22c55e',
+    borderRadius: 12,
+    height: 48,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: '#052e16',
+    fontSize: 16,
+    fontWeight: '800',
+  },
+});
+
+export default SubjectFiltersScreen;
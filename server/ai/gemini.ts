@@ -0,0 +1,59 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { FreeTextGrade, FreeTextTask, ReminderLanguage, ReminderLesson, ReminderResponse } from '../../utils/reminderPrompt';
+import { generateCheckedGrade, generateCheckedReminder } from '../../utils/reminderSchema';
+import { AiError } from './types';
+
+// The key stays on the server; the app never sees it
+const API_KEY = process.env.GEMINI_API_KEY || '';
+export const GEMINI_MODEL = process.env.GEMINI_MODEL || 'gemini-2.5-flash';
+
+export const isGeminiConfigured = (): boolean => !!API_KEY;
+
+const createGenerateText = (): ((prompt: string) => Promise<string>) => {
+  if (!API_KEY) {
+    throw new AiError('AI reminders are not configured on the server', 503, 'Set GEMINI_API_KEY before starting the server');
+  }
+
+  const model = new GoogleGenerativeAI(API_KEY).getGenerativeModel({
+    model: GEMINI_MODEL,
+    generationConfig: { responseMimeType: 'application/json' },
+  });
+  const generateText = async (prompt: string): Promise<string> => {
+    try {
+      return (await model.generateContent(prompt)).response.text();
+    } catch (error: any) {
+      // Passed on as 429 so the app backs off instead of giving up
+      const status = error?.status === 429 || /quota|resource.?exhausted/i.test(String(error?.message)) ? 429 : 502;
+      throw new AiError(status === 429 ? 'Gemini is rate limited, try again shortly' : 'Gemini did not answer', status, error?.message || String(error));
+    }
+  };
+  return generateText;
+};
+
+export const generateReminderWithGemini = async (
+  subject: string,
+  lessons: ReminderLesson[],
+  language: ReminderLanguage
+): Promise<ReminderResponse> => {
+  const generateText = createGenerateText();
+  try {
+    return await generateCheckedReminder(generateText, subject, lessons, language);
+  } catch (error: any) {
+    if (error instanceof AiError) throw error;
+    throw new AiError('Gemini returned an unusable reminder', 502, error?.message || String(error));
+  }
+};
+
+export const gradeAnswerWithGemini = async (
+  task: FreeTextTask,
+  answer: string,
+  language: ReminderLanguage
+): Promise<FreeTextGrade> => {
+  const generateText = createGenerateText();
+  try {
+    return await generateCheckedGrade(generateText, task, answer, language);
+  } catch (error: any) {
+    if (error instanceof AiError) throw error;
+    throw new AiError('Gemini returned an unusable grade', 502, error?.message || String(error));
+  }
+};
@@ -0,0 +1,15 @@
+import { randomUUID } from 'crypto';
+import { hasValidSignature, sign } from './signing';
+
+/** A new "installId.signature" token; the server keeps no state, the signature proves it issued the id. */
+export const issueInstallToken = (): string => {
+  const installId = randomUUID();
+  return `${installId}.${sign(installId)}`;
+};
+
+/** The install id of a token this server signed, or null for anything else. */
+export const readInstallId = (token: string): string | null => {
+  const [installId, signature] = token.split('.');
+  if (!installId || !signature) return null;
+  return hasValidSignature(installId, signature) ? installId : null;
+};
@@ -0,0 +1,41 @@
+export type RateLimitResult = {
+  allowed: boolean;
+  remaining: number;
+  // Until the oldest request in the window expires; 0 when allowed
+  retryAfterMs: number;
+};
+
+/** Sliding-window limit of `limit` requests per `windowMs` for each key, kept in memory. */
+export class RateLimiter {
+  private requests = new Map<string, number[]>();
+
+  constructor(private limit: number, private windowMs: number) {}
+
+  private recent(key: string, now: number): number[] {
+    const times = (this.requests.get(key) || []).filter(time => now - time < this.windowMs);
+    if (times.length > 0) {
+      this.requests.set(key, times);
+    } else {
+      this.requests.delete(key);
+    }
+    return times;
+  }
+
+  peek(key: string, now: number = Date.now()): RateLimitResult {
+    const times = this.recent(key, now);
+    const allowed = times.length < this.limit;
+    return {
+      allowed,
+      remaining: Math.max(0, this.limit - times.length),
+      retryAfterMs: allowed ? 0 : times[0] + this.windowMs - now,
+    };
+  }
+
+  /** Counts a request for `key` if the limit allows it. */
+  take(key: string, now: number = Date.now()): RateLimitResult {
+    const result = this.peek(key, now);
+    if (!result.allowed) return result;
+    this.requests.set(key, [...this.recent(key, now), now]);
+    return { ...result, remaining: result.remaining - 1 };
+  }
+}
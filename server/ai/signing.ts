@@ -0,0 +1,13 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+// Signs install tokens and free-text tasks. Without AI_TOKEN_SECRET every restart
+// invalidates both; the app then fetches a new token, but older tasks can't be graded
+const secret = process.env.AI_TOKEN_SECRET || randomBytes(32).toString('hex');
+
+export const sign = (value: string): string => createHmac('sha256', secret).update(value).digest('base64url');
+
+export const hasValidSignature = (value: string, signature: string): boolean => {
+  const expected = Buffer.from(sign(value));
+  const given = Buffer.from(signature);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+};
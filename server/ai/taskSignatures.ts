@@ -0,0 +1,21 @@
+import { FreeTextTask, ReminderResponse } from '../../utils/reminderPrompt';
+import { hasValidSignature, sign } from './signing';
+
+// Everything buildGradingPrompt reads from a task, so a grade only ever uses the signed
+// question, rubric and sample answer; changing any of them breaks the signature
+const signedContent = (task: FreeTextTask): string =>
+  JSON.stringify({
+    question: task.question,
+    rubric: task.rubric.map(({ criterion, points }) => ({ criterion, points })),
+    sampleAnswer: task.sampleAnswer,
+  });
+
+/** Signs the free-text tasks of a reminder this server generated, so /ai/grade can tell them apart. */
+export const signReminderTasks = (reminder: ReminderResponse): ReminderResponse => ({
+  ...reminder,
+  tasks: reminder.tasks.map(task => (task.type === 'freeText' ? { ...task, signature: sign(signedContent(task)) } : task)),
+});
+
+/** True when this server generated the task and its question, rubric and sample answer are unchanged. */
+export const isSignedFreeTextTask = (task: FreeTextTask): boolean =>
+  !!task.signature && hasValidSignature(signedContent(task), task.signature);
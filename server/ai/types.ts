@@ -0,0 +1,11 @@
+export class AiError extends Error {
+  status: number;
+  details?: string;
+
+  constructor(message: string, status: number, details?: string) {
+    super(message);
+    this.name = 'AiError';
+    this.status = status;
+    this.details = details;
+  }
+}
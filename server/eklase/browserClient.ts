@@ -0,0 +1,157 @@
+import { existsSync, mkdirSync, readdirSync, statSync, unlinkSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import puppeteer, { Browser, Page } from 'puppeteer-core';
+import { DiagnosticTrace } from './diagnostics';
+import { getWeekStart, isLoginPage, parseDiaryHtml } from './diaryParser';
+import { EKLASE_BASE_URL, getDiaryPath } from './httpClient';
+import { DiaryLesson, EklaseCredentials, EklaseError } from './types';
+
+const NAVIGATION_TIMEOUT_MS = 30000;
+// Screenshots and page HTML contain student data, so they are only saved when a directory is configured
+const DIAGNOSTICS_DIR = process.env.EKLASE_DIAGNOSTICS_DIR;
+const DIAGNOSTICS_MAX_AGE_MS = 24 * 3600 * 1000;
+// Chrome's sandbox doesn't start as root inside most containers
+const NO_SANDBOX = process.env.EKLASE_CHROME_NO_SANDBOX === '1';
+
+// puppeteer-core ships without a browser, so use a locally installed Chrome/Chromium
+const CHROME_CANDIDATES = [
+  '/usr/bin/google-chrome',
+  '/usr/bin/google-chrome-stable',
+  '/usr/bin/chromium',
+  '/usr/bin/chromium-browser',
+  '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
+  '/Applications/Chromium.app/Contents/MacOS/Chromium',
+  'C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe',
+];
+
+const findChrome = (): string | undefined => {
+  const configured = process.env.PUPPETEER_EXECUTABLE_PATH || process.env.CHROME_PATH;
+  if (configured) return configured;
+  return CHROME_CANDIDATES.find(candidate => existsSync(candidate));
+};
+
+// Deletes saved pages older than a day
+const pruneDiagnostics = (dir: string) => {
+  const now = Date.now();
+  for (const name of readdirSync(dir)) {
+    const path = join(dir, name);
+    if (now - statSync(path).mtimeMs > DIAGNOSTICS_MAX_AGE_MS) unlinkSync(path);
+  }
+};
+
+/**
+ * Saves a screenshot and the page HTML so a failed browser step can be inspected
+ * later. The paths are logged on the server only, never added to the trace.
+ */
+const captureDiagnostics = async (page: Page, label: string, trace: DiagnosticTrace) => {
+  try {
+    trace.note(`Page: ${page.url()} ("${await page.title()}")`);
+    if (!DIAGNOSTICS_DIR) return;
+    mkdirSync(DIAGNOSTICS_DIR, { recursive: true });
+    pruneDiagnostics(DIAGNOSTICS_DIR);
+    const base = join(DIAGNOSTICS_DIR, `${Date.now()}-${label.replace(/\W+/g, '-')}`);
+    writeFileSync(`${base}.html`, await page.content());
+    await page.screenshot({ path: `${base}.png`, fullPage: true });
+    console.warn(`[eklase] Saved ${base}.png and ${base}.html`);
+  } catch (error) {
+    console.error('Error capturing E-klase diagnostics:', error);
+  }
+};
+
+/**
+ * Headless Chrome E-klase client for logins that need JavaScript or redirect
+ * flows. Pages are rendered in the browser and then parsed with the same
+ * cheerio parser as the HTTP client.
+ */
+export class EklaseBrowserClient {
+  private browser?: Browser;
+  private page?: Page;
+
+  constructor(private trace: DiagnosticTrace) {}
+
+  /** Records the next steps into the trace of the current request. */
+  useTrace(trace: DiagnosticTrace): void {
+    this.trace = trace;
+  }
+
+  private async getPage(): Promise<Page> {
+    if (this.page) return this.page;
+
+    const executablePath = findChrome();
+    if (!executablePath) {
+      throw new EklaseError(
+        'Headless browser is not available on the server',
+        503,
+        'Set PUPPETEER_EXECUTABLE_PATH to a Chrome or Chromium binary.',
+        'browser_unavailable'
+      );
+    }
+
+    this.trace.note(`Chrome: ${executablePath}`);
+    this.browser = await puppeteer.launch({ executablePath, headless: true, args: NO_SANDBOX ? ['--no-sandbox'] : [] });
+    this.page = await this.browser.newPage();
+    this.page.setDefaultNavigationTimeout(NAVIGATION_TIMEOUT_MS);
+    this.page.on('console', message => {
+      if (message.type() === 'error') this.trace.note(`Console error: ${message.text()}`);
+    });
+    this.page.on('requestfailed', request => {
+      this.trace.note(`Request failed: ${request.url()} (${request.failure()?.errorText})`);
+    });
+    return this.page;
+  }
+
+  async login(credentials: EklaseCredentials): Promise<void> {
+    const page = await this.getPage();
+    try {
+      await page.goto(`${EKLASE_BASE_URL}/`, { waitUntil: 'networkidle2' });
+      await page.waitForSelector('input[name="UserName"]');
+      await page.type('input[name="UserName"]', credentials.username);
+      await page.type('input[name="Password"]', credentials.password);
+      // Submitting like a user does runs the page's own submit handlers
+      const submitButton = await page.$('button[type="submit"], input[type="submit"]');
+      await Promise.all([
+        page.waitForNavigation({ waitUntil: 'networkidle2' }),
+        submitButton ? submitButton.click() : page.keyboard.press('Enter'),
+      ]);
+      this.trace.note(`Landed on ${page.url()}`);
+
+      if (isLoginPage(await page.content())) {
+        throw new EklaseError(
+          'Wrong E-klase username or password',
+          401,
+          'E-klase showed the login form again after signing in with the browser.',
+          'bad_credentials'
+        );
+      }
+    } catch (error) {
+      await captureDiagnostics(page, 'login', this.trace);
+      throw error;
+    }
+  }
+
+  async fetchDiaryWeek(week: Date): Promise<DiaryLesson[]> {
+    const page = await this.getPage();
+    try {
+      await page.goto(`${EKLASE_BASE_URL}${getDiaryPath(week)}`, { waitUntil: 'networkidle2' });
+      const html = await page.content();
+      if (isLoginPage(html)) {
+        throw new EklaseError('E-klase session expired', 440, `${page.url()} showed the login page.`, 'session_expired');
+      }
+      try {
+        return parseDiaryHtml(html, getWeekStart(week));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new EklaseError('Could not read the E-klase diary page', 502, `${page.url()}: ${message}`, 'unparseable');
+      }
+    } catch (error) {
+      await captureDiagnostics(page, 'diary', this.trace);
+      throw error;
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.browser?.close().catch(() => undefined);
+    this.browser = undefined;
+    this.page = undefined;
+  }
+}
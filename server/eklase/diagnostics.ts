@@ -0,0 +1,63 @@
+import { EklaseError } from './types';
+
+type TraceEntry = {
+  label: string;
+  status: 'running' | 'ok' | 'failed' | 'info';
+  durationMs?: number;
+  notes: string[];
+};
+
+/**
+ * Step-by-step record of a scrape attempt. Formatted into `details` of the error
+ * the app shows under "Why did it fail?".
+ */
+export class DiagnosticTrace {
+  private entries: TraceEntry[] = [];
+
+  /** Adds a note to the step that is currently running (or as its own line). */
+  note(message: string) {
+    const running = [...this.entries].reverse().find(entry => entry.status === 'running');
+    if (running) {
+      running.notes.push(message);
+    } else {
+      this.entries.push({ label: message, status: 'info', notes: [] });
+    }
+  }
+
+  async step<T>(label: string, run: () => Promise<T>): Promise<T> {
+    const entry: TraceEntry = { label, status: 'running', notes: [] };
+    this.entries.push(entry);
+    const startedAt = Date.now();
+    try {
+      const result = await run();
+      entry.status = 'ok';
+      return result;
+    } catch (error) {
+      entry.status = 'failed';
+      entry.notes.push(error instanceof Error ? error.message : String(error));
+      throw error;
+    } finally {
+      entry.durationMs = Date.now() - startedAt;
+    }
+  }
+
+  format(): string {
+    return this.entries
+      .map((entry, index) => {
+        const icon = { ok: '✓', failed: '✗', running: '…', info: '•' }[entry.status];
+        const duration = entry.durationMs !== undefined ? ` (${entry.durationMs} ms)` : '';
+        const notes = entry.notes.map(note => `\n   ${note}`).join('');
+        return `${index + 1}. ${icon} ${entry.label}${duration}${notes}`;
+      })
+      .join('\n');
+  }
+}
+
+/** Wraps any failure into an EklaseError whose details end with the trace. */
+export const withTrace = (error: unknown, trace: DiagnosticTrace, fallbackMessage: string): EklaseError => {
+  const eklaseError = error instanceof EklaseError
+    ? error
+    : new EklaseError(fallbackMessage, 500, error instanceof Error ? error.message : String(error));
+  eklaseError.details = [eklaseError.details, 'Trace:', trace.format()].filter(Boolean).join('\n');
+  return eklaseError;
+};
@@ -0,0 +1,31 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { test } from 'node:test';
+import { isLoginPage, parseDiaryHtml } from './diaryParser';
+
+const readFixture = (file: string): string => readFileSync(join(__dirname, '..', 'fixtures', 'eklase', file), 'utf8');
+
+test('parses the saved diary week', () => {
+  const html = readFixture('diary-2025-11-03.html');
+  assert.equal(isLoginPage(html), false);
+
+  const lessons = parseDiaryHtml(html, '2025-11-03');
+  assert.equal(lessons.length, 6);
+  assert.deepEqual(lessons[0], {
+    subject: 'Matemātika',
+    topic: 'Kvadrātvienādojumi. Diskriminants',
+    homework: '86. lpp. 12.–15. uzdevums',
+    date: '2025-11-03',
+  });
+  assert.equal(lessons[2].homework, 'Atrisināt 3 uzdevumus par spēku un paātrinājumu\nIzlasīt 4.2. nodaļu');
+  assert.ok(lessons.every(lesson => lesson.date >= '2025-11-03' && lesson.date <= '2025-11-09'));
+});
+
+test('recognises the login page', () => {
+  assert.equal(isLoginPage(readFixture('login-page.html')), true);
+});
+
+test('rejects a page without the diary table', () => {
+  assert.throws(() => parseDiaryHtml(readFixture('malformed-diary.html')), /Diary table not found/);
+});
@@ -0,0 +1,69 @@
+import * as cheerio from 'cheerio';
+import { DiaryLesson } from './types';
+
+const DAY_MS = 24 * 3600 * 1000;
+
+const toIsoDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+// Day headers look like "03.11.25. pirmdiena" (sometimes with a four digit year)
+const parseDayHeader = (text: string): string | null => {
+  const match = text.match(/(\d{1,2})\.(\d{1,2})\.(\d{2,4})/);
+  if (!match) return null;
+  const [, day, month, year] = match;
+  const fullYear = year.length === 2 ? `20${year}` : year;
+  return `${fullYear}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+};
+
+const cleanText = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+/** Monday of the week that contains `date`, as YYYY-MM-DD. */
+export const getWeekStart = (date: Date): string => {
+  const utc = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+  const dayOffset = utc.getUTCDay() === 0 ? 6 : utc.getUTCDay() - 1;
+  return toIsoDate(new Date(utc.valueOf() - dayOffset * DAY_MS));
+};
+
+/** True when E-klase answered with its login form instead of the requested page. */
+export const isLoginPage = (html: string): boolean => {
+  const $ = cheerio.load(html);
+  return $('input[name="UserName"]').length > 0 && $('input[name="Password"]').length > 0;
+};
+
+/**
+ * Parses the Family/Diary page into lessons. Days without a readable date header
+ * fall back to counting from `weekStart` (the Monday of the requested week).
+ */
+export const parseDiaryHtml = (html: string, weekStart?: string): DiaryLesson[] => {
+  const $ = cheerio.load(html);
+  const holder = $('.student-journal-lessons-table-holder');
+  if (holder.length === 0) {
+    throw new Error('Diary table not found on the page');
+  }
+
+  const lessons: DiaryLesson[] = [];
+  holder.find('.lessons-table').each((dayIndex, table) => {
+    const header = $(table).prevAll('h2').first().text();
+    const date = parseDayHeader(header)
+      ?? (weekStart ? toIsoDate(new Date(Date.parse(weekStart) + dayIndex * DAY_MS)) : null);
+    if (!date) return;
+
+    $(table).find('tbody tr').each((_, row) => {
+      const title = $(row).find('.first-column .title').clone();
+      title.find('.room').remove();
+      const subject = cleanText(title.text());
+      if (!subject) return; // "Nav ierakstu" and other info rows
+
+      const topic = cleanText($(row).find('.subject p').first().text());
+      const homework = $(row)
+        .find('.hometask > span')
+        .map((__, task) => cleanText($(task).find('p').text() || $(task).text()))
+        .get()
+        .filter(Boolean)
+        .join('\n');
+
+      lessons.push({ subject, topic, homework, date });
+    });
+  });
+
+  return lessons;
+};
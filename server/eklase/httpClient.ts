@@ -0,0 +1,105 @@
+import { EklaseCredentials, EklaseError, DiaryLesson } from './types';
+import { getWeekStart, isLoginPage, parseDiaryHtml } from './diaryParser';
+import { DiagnosticTrace } from './diagnostics';
+
+export const EKLASE_BASE_URL = (process.env.EKLASE_BASE_URL || 'https://my.e-klase.lv').replace(/\/$/, '');
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; Revisory/1.0)';
+
+export const getDiaryPath = (week: Date): string =>
+  `/Family/Diary?Date=${week.getDate()}.${week.getMonth() + 1}.${week.getFullYear()}`;
+
+/** Plain HTTP E-klase client that keeps its own cookie jar. */
+export class EklaseHttpClient {
+  private cookies = new Map<string, string>();
+
+  private storeCookies(response: Response) {
+    for (const cookie of response.headers.getSetCookie()) {
+      const [pair] = cookie.split(';');
+      const separator = pair.indexOf('=');
+      if (separator > 0) {
+        this.cookies.set(pair.slice(0, separator).trim(), pair.slice(separator + 1).trim());
+      }
+    }
+  }
+
+  private cookieHeader(): string {
+    return Array.from(this.cookies.entries())
+      .map(([name, value]) => `${name}=${value}`)
+      .join('; ');
+  }
+
+  // Follows redirects by hand so cookies set along the way are kept
+  private async request(
+    path: string,
+    init: RequestInit = {},
+    trace?: DiagnosticTrace,
+    redirectsLeft = 5
+  ): Promise<{ url: string; html: string }> {
+    const url = path.startsWith('http') ? path : `${EKLASE_BASE_URL}${path}`;
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        ...init,
+        redirect: 'manual',
+        headers: {
+          'User-Agent': USER_AGENT,
+          Cookie: this.cookieHeader(),
+          ...init.headers,
+        },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new EklaseError('Could not reach E-klase', 502, `${url}: ${message}`, 'unreachable');
+    }
+    this.storeCookies(response);
+    trace?.note(`${init.method || 'GET'} ${new URL(url).pathname} → ${response.status}`);
+
+    const location = response.headers.get('location');
+    if (response.status >= 300 && response.status < 400 && location) {
+      if (redirectsLeft === 0) {
+        throw new EklaseError('E-klase redirected too many times', 502, `Last redirect: ${location}`);
+      }
+      return this.request(new URL(location, url).toString(), {}, trace, redirectsLeft - 1);
+    }
+    if (response.status >= 500) {
+      throw new EklaseError('E-klase is not available right now', 502, `${url} returned HTTP ${response.status}`, 'unreachable');
+    }
+    return { url, html: await response.text() };
+  }
+
+  async login(credentials: EklaseCredentials, trace?: DiagnosticTrace): Promise<void> {
+    const form = new URLSearchParams({
+      fake_pass: '',
+      UserName: credentials.username,
+      Password: credentials.password,
+    });
+    const { html } = await this.request('/?v=15', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: form.toString(),
+    }, trace);
+    if (isLoginPage(html)) {
+      throw new EklaseError(
+        'Wrong E-klase username or password',
+        401,
+        'E-klase showed the login form again after submitting the credentials.',
+        'bad_credentials'
+      );
+    }
+  }
+
+  /** Fetches the diary week containing `week`. Throws a 440 EklaseError when the session has expired. */
+  async fetchDiaryWeek(week: Date, trace?: DiagnosticTrace): Promise<DiaryLesson[]> {
+    const { url, html } = await this.request(getDiaryPath(week), {}, trace);
+    if (isLoginPage(html)) {
+      throw new EklaseError('E-klase session expired', 440, `${url} redirected to the login page.`, 'session_expired');
+    }
+    try {
+      return parseDiaryHtml(html, getWeekStart(week));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new EklaseError('Could not read the E-klase diary page', 502, `${url}: ${message}`, 'unparseable');
+    }
+  }
+}
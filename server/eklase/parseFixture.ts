@@ -0,0 +1,23 @@
+// Runs the diary parser against a saved E-klase page:
+//   npm run eklase:parse -- server/fixtures/eklase/diary-2025-11-03.html [weekStart]
+import { readFileSync } from 'fs';
+import { isLoginPage, parseDiaryHtml } from './diaryParser';
+
+const [file, weekStart] = process.argv.slice(2);
+if (!file) {
+  console.error('Usage: eklase:parse <file.html> [YYYY-MM-DD week start]');
+  process.exit(1);
+}
+
+const html = readFileSync(file, 'utf8');
+if (isLoginPage(html)) {
+  console.log('Login page (not signed in)');
+  process.exit(0);
+}
+
+try {
+  console.log(JSON.stringify(parseDiaryHtml(html, weekStart), null, 2));
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { after, before, test } from 'node:test';
+import { createMockEklase } from '../mock/eklaseMock';
+import { DiagnosticTrace } from './diagnostics';
+import type { EklaseScraper as EklaseScraperClass } from './scraper';
+import { EklaseError } from './types';
+
+const WEEK = new Date(2025, 10, 3);
+
+let server: Server;
+let EklaseScraper: typeof EklaseScraperClass;
+
+// The HTTP client reads EKLASE_BASE_URL when it is loaded, so the scraper is imported once the mock listens
+before(async () => {
+  server = createMockEklase().listen(0);
+  await new Promise<void>(resolve => server.once('listening', () => resolve()));
+  process.env.EKLASE_BASE_URL = `http://localhost:${(server.address() as AddressInfo).port}`;
+  ({ EklaseScraper } = await import('./scraper'));
+});
+
+after(() => {
+  server.close();
+});
+
+const signIn = async (username: string, password = 'parole') => {
+  const scraper = new EklaseScraper();
+  await scraper.login({ username, password }, new DiagnosticTrace());
+  return scraper;
+};
+
+const assertEklaseError = (code: string, status: number) => (error: unknown) => {
+  assert.ok(error instanceof EklaseError);
+  assert.equal(error.code, code);
+  assert.equal(error.status, status);
+  return true;
+};
+
+test('reads the diary of a signed-in session', async () => {
+  const scraper = await signIn('skolens');
+  const lessons = await scraper.fetchDiaryWeeks([WEEK], new DiagnosticTrace());
+  assert.equal(lessons.length, 6);
+  assert.equal(lessons[0].subject, 'Matemātika');
+  await scraper.close();
+});
+
+test('rejects a wrong password without starting a browser', async () => {
+  const trace = new DiagnosticTrace();
+  await assert.rejects(
+    new EklaseScraper().login({ username: 'skolens', password: 'nepareizi' }, trace),
+    assertEklaseError('bad_credentials', 401)
+  );
+  assert.doesNotMatch(trace.format(), /browser/i);
+});
+
+test('reports a diary page whose layout changed', async () => {
+  const scraper = await signIn('malformed');
+  await assert.rejects(scraper.fetchDiaryWeeks([WEEK], new DiagnosticTrace()), assertEklaseError('unparseable', 502));
+  await scraper.close();
+});
+
+test('asks to sign in again once E-klase expires the session', async () => {
+  const scraper = await signIn('expiring');
+  await scraper.fetchDiaryWeeks([WEEK], new DiagnosticTrace());
+  await assert.rejects(scraper.fetchDiaryWeeks([WEEK], new DiagnosticTrace()), assertEklaseError('session_expired', 401));
+  await scraper.close();
+});
@@ -0,0 +1,150 @@
+import { EklaseBrowserClient } from './browserClient';
+import { DiagnosticTrace } from './diagnostics';
+import { EklaseHttpClient } from './httpClient';
+import { DiaryLesson, EklaseCredentials, EklaseError, EklaseErrorCode } from './types';
+
+const weekLabel = (week: Date): string =>
+  `${week.getFullYear()}-${String(week.getMonth() + 1).padStart(2, '0')}-${String(week.getDate()).padStart(2, '0')}`;
+
+// A browser can't help when E-klase is down or rejects the credentials, so a wrong password never starts Chrome
+const NO_FALLBACK_CODES: EklaseErrorCode[] = ['unreachable', 'bad_credentials'];
+
+const canFallBack = (error: unknown): boolean =>
+  !(error instanceof EklaseError) ||
+  (!NO_FALLBACK_CODES.includes(error.code) && error.status !== 401 && error.status !== 403);
+
+// The password isn't kept after login, so only the user can sign in again; the app reconnects on 401
+const signInAgainError = () =>
+  new EklaseError('E-klase session expired', 401, 'E-klase ended the session. Sign in again.', 'session_expired');
+
+/**
+ * Reads the diary with the cheerio HTTP client and switches to headless Chrome
+ * when that fails. Once a login needed the browser, later reads go straight to it
+ * and reuse the same signed-in browser until close(). Credentials are only used
+ * while signing in and are never stored.
+ */
+export class EklaseScraper {
+  private http = new EklaseHttpClient();
+  private httpSignedIn = false;
+  private preferBrowser = false;
+  private browser?: EklaseBrowserClient;
+  private browserSignedIn = false;
+  // The browser has one page, so requests of the same session take turns with it
+  private browserQueue: Promise<unknown> = Promise.resolve();
+
+  async login(credentials: EklaseCredentials, trace: DiagnosticTrace): Promise<void> {
+    try {
+      await this.httpLogin(trace, credentials);
+    } catch (error) {
+      if (!canFallBack(error)) throw error;
+      this.preferBrowser = true;
+      await this.withBrowser(error, trace, browser => this.browserLogin(browser, trace, credentials));
+    }
+  }
+
+  /**
+   * Reads the given diary weeks. Without `credentials` the scraper can't sign in
+   * again: an expired E-klase session throws a 401 and an HTTP failure only falls
+   * back to a browser that is already signed in.
+   */
+  async fetchDiaryWeeks(weeks: Date[], trace: DiagnosticTrace, credentials?: EklaseCredentials): Promise<DiaryLesson[]> {
+    let httpError: unknown;
+    if (!this.preferBrowser) {
+      try {
+        return await this.fetchOverHttp(weeks, trace, credentials);
+      } catch (error) {
+        if (!canFallBack(error) || (!credentials && !this.browserSignedIn)) throw error;
+        httpError = error;
+      }
+    }
+
+    return this.withBrowser(httpError, trace, async browser => {
+      if (!this.browserSignedIn) await this.browserLogin(browser, trace, credentials);
+      const lessons: DiaryLesson[] = [];
+      for (const week of weeks) {
+        const fetchWeek = () => trace.step(`Browser diary week of ${weekLabel(week)}`, () => browser.fetchDiaryWeek(week));
+        try {
+          lessons.push(...(await fetchWeek()));
+        } catch (error) {
+          if (!(error instanceof EklaseError) || error.code !== 'session_expired') throw error;
+          await this.browserLogin(browser, trace, credentials);
+          lessons.push(...(await fetchWeek()));
+        }
+      }
+      return lessons;
+    });
+  }
+
+  /** Shuts down the browser, if this scraper started one. */
+  async close(): Promise<void> {
+    const browser = this.browser;
+    this.browser = undefined;
+    this.browserSignedIn = false;
+    await browser?.close();
+  }
+
+  private async httpLogin(trace: DiagnosticTrace, credentials?: EklaseCredentials): Promise<void> {
+    this.http = new EklaseHttpClient();
+    this.httpSignedIn = false;
+    if (!credentials) throw signInAgainError();
+    await trace.step('HTTP login', () => this.http.login(credentials, trace));
+    this.httpSignedIn = true;
+  }
+
+  private async browserLogin(browser: EklaseBrowserClient, trace: DiagnosticTrace, credentials?: EklaseCredentials): Promise<void> {
+    this.browserSignedIn = false;
+    if (!credentials) throw signInAgainError();
+    await trace.step('Browser login', () => browser.login(credentials));
+    this.browserSignedIn = true;
+  }
+
+  private async fetchOverHttp(weeks: Date[], trace: DiagnosticTrace, credentials?: EklaseCredentials): Promise<DiaryLesson[]> {
+    if (!this.httpSignedIn) await this.httpLogin(trace, credentials);
+
+    const lessons: DiaryLesson[] = [];
+    for (const week of weeks) {
+      const fetchWeek = () => trace.step(`HTTP diary week of ${weekLabel(week)}`, () => this.http.fetchDiaryWeek(week, trace));
+      try {
+        lessons.push(...(await fetchWeek()));
+      } catch (error) {
+        if (!(error instanceof EklaseError) || error.code !== 'session_expired') throw error;
+        // E-klase dropped the cookies: sign in again once, if we can, and retry the week
+        await this.httpLogin(trace, credentials);
+        lessons.push(...(await fetchWeek()));
+      }
+    }
+    return lessons;
+  }
+
+  private withBrowser<T>(
+    previousError: unknown,
+    trace: DiagnosticTrace,
+    run: (browser: EklaseBrowserClient) => Promise<T>
+  ): Promise<T> {
+    const result = this.browserQueue.then(() => this.runInBrowser(previousError, trace, run));
+    this.browserQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async runInBrowser<T>(
+    previousError: unknown,
+    trace: DiagnosticTrace,
+    run: (browser: EklaseBrowserClient) => Promise<T>
+  ): Promise<T> {
+    trace.note(this.browser ? 'Using the open headless browser' : 'Falling back to headless browser');
+    const browser = this.browser || new EklaseBrowserClient(trace);
+    browser.useTrace(trace);
+    this.browser = browser;
+    try {
+      return await run(browser);
+    } catch (error) {
+      // A failed browser may be stuck on any page, so the next request starts a fresh one
+      await this.close();
+      // Without a browser the HTTP failure is the more useful one to report
+      if (previousError && error instanceof EklaseError && error.code === 'browser_unavailable') {
+        throw previousError;
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import { randomUUID } from 'crypto';
+import { DiagnosticTrace } from './diagnostics';
+import { EklaseScraper } from './scraper';
+import { DiaryLesson, EklaseCredentials, EklaseError } from './types';
+
+const SESSION_TTL_MS = 12 * 3600 * 1000;
+
+type Session = {
+  scraper: EklaseScraper;
+  lastUsedAt: number;
+};
+
+// In-memory only: restarting the server signs everyone out
+const sessions = new Map<string, Session>();
+
+const pruneExpired = () => {
+  const now = Date.now();
+  for (const [id, session] of sessions) {
+    if (now - session.lastUsedAt > SESSION_TTL_MS) endSession(id);
+  }
+};
+
+export const createSession = async (credentials: EklaseCredentials, trace: DiagnosticTrace): Promise<string> => {
+  pruneExpired();
+  const scraper = new EklaseScraper();
+  try {
+    await scraper.login(credentials, trace);
+  } catch (error) {
+    await scraper.close();
+    throw error;
+  }
+
+  const sessionId = randomUUID();
+  sessions.set(sessionId, { scraper, lastUsedAt: Date.now() });
+  return sessionId;
+};
+
+export const endSession = (sessionId: string): boolean => {
+  const session = sessions.get(sessionId);
+  if (!session) return false;
+  sessions.delete(sessionId);
+  // Closing Chrome can take a moment; the caller doesn't need to wait for it
+  void session.scraper.close();
+  return true;
+};
+
+/**
+ * Reads one diary week with the session's cookies. The password isn't kept, so
+ * when E-klase expires the cookies the session ends and the app has to sign in again.
+ */
+export const fetchSessionDiary = async (sessionId: string, week: Date, trace: DiagnosticTrace): Promise<DiaryLesson[]> => {
+  pruneExpired();
+  const session = sessions.get(sessionId);
+  if (!session) {
+    throw new EklaseError('Not signed in to E-klase', 401, 'Unknown or expired session. Sign in again.');
+  }
+  session.lastUsedAt = Date.now();
+  try {
+    return await session.scraper.fetchDiaryWeeks([week], trace);
+  } catch (error) {
+    if (error instanceof EklaseError && error.status === 401) endSession(sessionId);
+    throw error;
+  }
+};
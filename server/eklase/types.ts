@@ -0,0 +1,34 @@
+// Same shape the app stores as Lesson[] (see utils/database)
+export type DiaryLesson = {
+  subject: string;
+  topic: string;
+  homework: string;
+  date: string; // YYYY-MM-DD
+};
+
+export type EklaseCredentials = {
+  username: string;
+  password: string;
+};
+
+export type EklaseErrorCode =
+  | 'unreachable'
+  | 'bad_credentials'
+  | 'session_expired'
+  | 'unparseable'
+  | 'browser_unavailable'
+  | 'unknown';
+
+export class EklaseError extends Error {
+  status: number;
+  code: EklaseErrorCode;
+  details?: string;
+
+  constructor(message: string, status: number, details?: string, code: EklaseErrorCode = 'unknown') {
+    super(message);
+    this.name = 'EklaseError';
+    this.status = status;
+    this.details = details;
+    this.code = code;
+  }
+}
@@ -0,0 +1,21 @@
+import express from 'express';
+import cors from 'cors';
+import eklaseRouter from './routes/eklase';
+import aiRouter from './routes/ai';
+
+const PORT = Number(process.env.PORT) || 3001;
+
+const app = express();
+app.use(cors());
+app.use(express.json());
+
+app.get('/health', (_req, res) => {
+  res.json({ ok: true });
+});
+
+app.use('/eklase', eklaseRouter);
+app.use('/ai', aiRouter);
+
+app.listen(PORT, () => {
+  console.log(`Revisory server listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,148 @@
+// Offline stand-in for my.e-klase.lv, driven by server/fixtures/eklase/mock-config.json:
+//   npm run mock:eklase
+//   EKLASE_BASE_URL=http://localhost:4001 npm run server
+// Tests start it in-process with createMockEklase().
+import express, { Request, Response } from 'express';
+import { randomUUID } from 'crypto';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+const PORT = Number(process.env.MOCK_EKLASE_PORT) || 4001;
+const FIXTURES_DIR = process.env.MOCK_EKLASE_FIXTURES || join(__dirname, '..', 'fixtures', 'eklase');
+const AUTH_COOKIE = '.ASPXAUTH';
+const DAY_MS = 24 * 3600 * 1000;
+const WEEKDAYS = ['pirmdiena', 'otrdiena', 'trešdiena', 'ceturtdiena', 'piektdiena'];
+
+type MockUser = {
+  password: string;
+  weeks?: Record<string, string>; // week start (YYYY-MM-DD) -> fixture file
+  diary?: string; // fixture served for every week
+  loginStatus?: number; // answer the login with this HTTP status instead
+  expireAfterRequests?: number; // session ends after this many diary pages
+};
+
+type MockConfig = {
+  sessionTtlSeconds: number;
+  users: Record<string, MockUser>;
+};
+
+type MockSession = {
+  username: string;
+  createdAt: number;
+  diaryRequests: number;
+};
+
+const sessions = new Map<string, MockSession>();
+
+// Read on every request so fixtures and scenarios can be edited while the mock runs
+const loadConfig = (): MockConfig =>
+  JSON.parse(readFileSync(join(FIXTURES_DIR, 'mock-config.json'), 'utf8'));
+
+const readFixture = (file: string): string => readFileSync(join(FIXTURES_DIR, file), 'utf8');
+
+const readCookie = (req: Request, name: string): string | undefined =>
+  (req.get('cookie') || '')
+    .split(';')
+    .map(part => part.trim().split('='))
+    .find(([key]) => key === name)?.[1];
+
+// "3.11.2025" (E-klase's Date query) -> Monday of that week as YYYY-MM-DD
+const getWeekStart = (value: unknown): Date => {
+  const match = typeof value === 'string' ? value.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})$/) : null;
+  const date = match ? new Date(Date.UTC(Number(match[3]), Number(match[2]) - 1, Number(match[1]))) : new Date();
+  const dayOffset = date.getUTCDay() === 0 ? 6 : date.getUTCDay() - 1;
+  return new Date(date.valueOf() - dayOffset * DAY_MS);
+};
+
+const formatDayHeader = (date: Date): string => {
+  const day = String(date.getUTCDate()).padStart(2, '0');
+  const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+  return `${day}.${month}.${String(date.getUTCFullYear()).slice(2)}.`;
+};
+
+// Week without any lessons, for weeks that have no fixture
+const renderEmptyWeek = (weekStart: Date): string => {
+  const days = WEEKDAYS.map((weekday, index) => `
+    <h2>${formatDayHeader(new Date(weekStart.valueOf() + index * DAY_MS))} ${weekday}</h2>
+    <table class="lessons-table"><tbody><tr class="info"><td colspan="4">Nav ierakstu</td></tr></tbody></table>`);
+  return `<!DOCTYPE html><html lang="lv"><body>
+  <div class="student-journal-lessons-table-holder">${days.join('')}
+  </div></body></html>`;
+};
+
+const getSession = (req: Request, config: MockConfig): MockSession | null => {
+  const token = readCookie(req, AUTH_COOKIE);
+  const session = token ? sessions.get(token) : undefined;
+  if (!token || !session) return null;
+
+  const user = config.users[session.username];
+  const expiredByTime = Date.now() - session.createdAt > config.sessionTtlSeconds * 1000;
+  const expiredByRequests = user?.expireAfterRequests !== undefined && session.diaryRequests >= user.expireAfterRequests;
+  if (!user || expiredByTime || expiredByRequests) {
+    sessions.delete(token);
+    return null;
+  }
+  return session;
+};
+
+const sendLoginPage = (res: Response) => {
+  res.type('html').send(readFixture('login-page.html'));
+};
+
+export const createMockEklase = () => {
+  const app = express();
+  app.use(express.urlencoded({ extended: false }));
+
+  app.get('/', (_req, res) => sendLoginPage(res));
+
+  app.post('/', (req, res) => {
+    const config = loadConfig();
+    const username = String(req.body?.UserName || '');
+    const user = config.users[username];
+
+    if (user?.loginStatus) {
+      res.status(user.loginStatus).type('html').send('<h1>Service Unavailable</h1>');
+      return;
+    }
+    if (!user || user.password !== req.body?.Password) {
+      sendLoginPage(res);
+      return;
+    }
+
+    const token = randomUUID();
+    sessions.set(token, { username, createdAt: Date.now(), diaryRequests: 0 });
+    res.cookie(AUTH_COOKIE, token, { httpOnly: true, path: '/' });
+    res.redirect(302, '/Family/Home');
+  });
+
+  app.get('/Family/Home', (req, res) => {
+    if (!getSession(req, loadConfig())) {
+      res.redirect(302, '/');
+      return;
+    }
+    res.type('html').send('<!DOCTYPE html><html lang="lv"><body><h1>Sākums</h1></body></html>');
+  });
+
+  app.get('/Family/Diary', (req, res) => {
+    const config = loadConfig();
+    const session = getSession(req, config);
+    if (!session) {
+      res.redirect(302, '/');
+      return;
+    }
+    session.diaryRequests++;
+
+    const user = config.users[session.username];
+    const weekStart = getWeekStart(req.query.Date);
+    const fixture = user.diary || user.weeks?.[weekStart.toISOString().slice(0, 10)];
+    res.type('html').send(fixture ? readFixture(fixture) : renderEmptyWeek(weekStart));
+  });
+
+  return app;
+};
+
+if (require.main === module) {
+  createMockEklase().listen(PORT, () => {
+    console.log(`Mock E-klase listening on http://localhost:${PORT} (fixtures: ${FIXTURES_DIR})`);
+  });
+}
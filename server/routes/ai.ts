@@ -0,0 +1,171 @@
+import { Router, Request, Response } from 'express';
+import { GEMINI_MODEL, generateReminderWithGemini, gradeAnswerWithGemini, isGeminiConfigured } from '../ai/gemini';
+import { issueInstallToken, readInstallId } from '../ai/installTokens';
+import { isSignedFreeTextTask, signReminderTasks } from '../ai/taskSignatures';
+import { RateLimiter } from '../ai/rateLimiter';
+import { AiError } from '../ai/types';
+import { DEFAULT_REMINDER_LANGUAGE, MAX_FREE_TEXT_LENGTH, ReminderLesson, isReminderLanguage } from '../../utils/reminderPrompt';
+import { checkFreeTextTask } from '../../utils/reminderSchema';
+
+const HOUR_MS = 3600 * 1000;
+const MAX_LESSONS = 200;
+const MAX_FIELD_LENGTH = 2000;
+
+// Per-install reminders per hour (keyed on the server-issued install token, see POST /ai/token);
+// a per-address limit stops one device from cycling through tokens
+const installLimiter = new RateLimiter(Number(process.env.AI_REMINDERS_PER_HOUR) || 30, HOUR_MS);
+const addressLimiter = new RateLimiter(Number(process.env.AI_REMINDERS_PER_HOUR_PER_IP) || 120, HOUR_MS);
+// Grading is cheaper and a session can have several open questions, so it has its own limits
+const gradeInstallLimiter = new RateLimiter(Number(process.env.AI_GRADES_PER_HOUR) || 60, HOUR_MS);
+const gradeAddressLimiter = new RateLimiter(Number(process.env.AI_GRADES_PER_HOUR_PER_IP) || 240, HOUR_MS);
+// New install tokens per address, so a client can't mint a fresh per-install limit for every request
+const tokenAddressLimiter = new RateLimiter(Number(process.env.AI_TOKENS_PER_HOUR_PER_IP) || 10, HOUR_MS);
+
+const router = Router();
+
+// The install id from "Authorization: Bearer <token>", or '' without a token this server issued
+const readInstall = (req: Request): string => {
+  const header = req.get('authorization') || '';
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+  return (token && readInstallId(token)) || '';
+};
+
+const readText = (value: unknown): string =>
+  typeof value === 'string' ? value.slice(0, MAX_FIELD_LENGTH) : '';
+
+const readLessons = (value: unknown): ReminderLesson[] | null => {
+  if (!Array.isArray(value)) return null;
+  return value.slice(0, MAX_LESSONS).map(lesson => ({
+    subject: readText(lesson?.subject),
+    topic: readText(lesson?.topic),
+    homework: readText(lesson?.homework),
+    date: readText(lesson?.date),
+  }));
+};
+
+const sendRateLimited = (res: Response, retryAfterMs: number, what: string) => {
+  const minutes = Math.max(1, Math.ceil(retryAfterMs / 60000));
+  res.set('Retry-After', String(Math.ceil(retryAfterMs / 1000)));
+  res.status(429).json({ error: `Too many ${what} requested. Try again in ${minutes} min.` });
+};
+
+const sendError = (res: Response, error: unknown, action: string) => {
+  if (error instanceof AiError) {
+    res.status(error.status).json({ error: error.message, details: error.details });
+    return;
+  }
+  console.error(`Failed to ${action}:`, error);
+  res.status(500).json({ error: `Failed to ${action}` });
+};
+
+const getAddress = (req: Request): string => req.ip || req.socket.remoteAddress || 'unknown';
+
+const sendUnauthorized = (res: Response) => {
+  res.status(401).json({ error: 'Missing or invalid install token', details: 'Get a new one with POST /ai/token' });
+};
+
+/**
+ * Answers 503 when Gemini isn't configured and 429 when either limit is used up;
+ * otherwise takes one request from both limits and returns true.
+ */
+const allowRequest = (
+  req: Request,
+  res: Response,
+  install: string,
+  limiters: { install: RateLimiter; address: RateLimiter },
+  what: string
+): boolean => {
+  // Don't use up this install's limit on a server that can't answer anyway
+  if (!isGeminiConfigured()) {
+    res.status(503).json({ error: 'AI reminders are not configured on the server', details: 'Set GEMINI_API_KEY before starting the server' });
+    return false;
+  }
+
+  const byAddress = limiters.address.peek(getAddress(req));
+  if (!byAddress.allowed) {
+    sendRateLimited(res, byAddress.retryAfterMs, what);
+    return false;
+  }
+  const byInstall = limiters.install.take(install);
+  if (!byInstall.allowed) {
+    sendRateLimited(res, byInstall.retryAfterMs, what);
+    return false;
+  }
+  limiters.address.take(getAddress(req));
+  return true;
+};
+
+// POST /ai/token -> { token }; the app keeps it for good and sends it as "Authorization: Bearer <token>"
+router.post('/token', (req, res) => {
+  const byAddress = tokenAddressLimiter.take(getAddress(req));
+  if (!byAddress.allowed) {
+    sendRateLimited(res, byAddress.retryAfterMs, 'install tokens');
+    return;
+  }
+  res.json({ token: issueInstallToken() });
+});
+
+// GET /ai/status (Authorization: Bearer <token> optional) -> { configured, model, remaining }
+router.get('/status', (req, res) => {
+  const install = readInstall(req);
+  res.json({
+    configured: isGeminiConfigured(),
+    model: GEMINI_MODEL,
+    remaining: install ? installLimiter.peek(install).remaining : null,
+  });
+});
+
+// POST /ai/reminder (Authorization: Bearer <token>) { subject, lessons, language?: 'lv' | 'en' } -> ReminderResponse
+router.post('/reminder', async (req, res) => {
+  const install = readInstall(req);
+  if (!install) {
+    sendUnauthorized(res);
+    return;
+  }
+  const subject = readText(req.body?.subject).trim();
+  const lessons = readLessons(req.body?.lessons);
+  const language = isReminderLanguage(req.body?.language) ? req.body.language : DEFAULT_REMINDER_LANGUAGE;
+  if (!subject || !lessons) {
+    res.status(400).json({ error: 'subject and lessons are required' });
+    return;
+  }
+
+  if (!allowRequest(req, res, install, { install: installLimiter, address: addressLimiter }, 'reminders')) return;
+
+  try {
+    res.json(signReminderTasks(await generateReminderWithGemini(subject, lessons, language)));
+  } catch (error) {
+    sendError(res, error, 'generate the reminder');
+  }
+});
+
+// POST /ai/grade (Authorization: Bearer <token>) { task: FreeTextTask, answer, language?: 'lv' | 'en' } -> FreeTextGrade
+// Only tasks /ai/reminder signed are graded, so the server's key can't be used for arbitrary text
+router.post('/grade', async (req, res) => {
+  const install = readInstall(req);
+  if (!install) {
+    sendUnauthorized(res);
+    return;
+  }
+  const task = checkFreeTextTask(req.body?.task);
+  const answer = typeof req.body?.answer === 'string' ? req.body.answer.trim().slice(0, MAX_FREE_TEXT_LENGTH) : '';
+  const language = isReminderLanguage(req.body?.language) ? req.body.language : DEFAULT_REMINDER_LANGUAGE;
+  if (!task || !answer) {
+    res.status(400).json({ error: 'A free-text task and answer are required' });
+    return;
+  }
+  if (!isSignedFreeTextTask(task)) {
+    res.status(403).json({ error: 'This task was not generated by this server', details: 'Only unchanged free-text tasks from /ai/reminder can be graded' });
+    return;
+  }
+
+  if (!allowRequest(req, res, install, { install: gradeInstallLimiter, address: gradeAddressLimiter }, 'answers to grade')) return;
+
+  try {
+    res.json(await gradeAnswerWithGemini(task, answer, language));
+  } catch (error) {
+    sendError(res, error, 'grade the answer');
+  }
+});
+
+export default router;
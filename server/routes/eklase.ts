@@ -0,0 +1,91 @@
+import { Router, Request, Response } from 'express';
+import { DiagnosticTrace, withTrace } from '../eklase/diagnostics';
+import { EklaseScraper } from '../eklase/scraper';
+import { createSession, endSession, fetchSessionDiary } from '../eklase/sessions';
+import { EklaseError } from '../eklase/types';
+
+const WEEK_MS = 7 * 24 * 3600 * 1000;
+
+const router = Router();
+
+// Accepts YYYY-MM-DD; anything else falls back to today
+const parseWeek = (value: unknown): Date => {
+  const match = typeof value === 'string' ? value.match(/^(\d{4})-(\d{2})-(\d{2})$/) : null;
+  return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : new Date();
+};
+
+const readCredentials = (req: Request, res: Response) => {
+  const { username, password } = req.body ?? {};
+  if (typeof username !== 'string' || typeof password !== 'string' || !username || !password) {
+    res.status(400).json({ error: 'Please enter username and password' });
+    return null;
+  }
+  return { username, password };
+};
+
+const readSessionId = (req: Request): string => {
+  const header = req.get('authorization') || '';
+  return header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+};
+
+const sendError = (res: Response, error: unknown, fallbackMessage: string, trace: DiagnosticTrace) => {
+  if (!(error instanceof EklaseError)) {
+    console.error(`${fallbackMessage}:`, error);
+  }
+  const eklaseError = withTrace(error, trace, fallbackMessage);
+  res.status(eklaseError.status).json({ error: eklaseError.message, details: eklaseError.details });
+};
+
+// POST /eklase/login { username, password } -> { sessionId }
+router.post('/login', async (req, res) => {
+  const credentials = readCredentials(req, res);
+  if (!credentials) return;
+
+  const trace = new DiagnosticTrace();
+  try {
+    res.json({ sessionId: await createSession(credentials, trace) });
+  } catch (error) {
+    sendError(res, error, 'Failed to sign in to E-klase', trace);
+  }
+});
+
+// POST /eklase/logout (Authorization: Bearer <sessionId>)
+router.post('/logout', (req, res) => {
+  endSession(readSessionId(req));
+  res.json({ ok: true });
+});
+
+// GET /eklase/diary?week=YYYY-MM-DD (Authorization: Bearer <sessionId>) -> { lessons }
+router.get('/diary', async (req, res) => {
+  const trace = new DiagnosticTrace();
+  try {
+    const lessons = await fetchSessionDiary(readSessionId(req), parseWeek(req.query.week), trace);
+    res.json({ lessons });
+  } catch (error) {
+    sendError(res, error, 'Failed to read the E-klase diary', trace);
+  }
+});
+
+// POST /eklase/import { username, password, weeks?: string[] } -> { lessons }
+// One-shot login + diary read. Defaults to the current and the next diary week.
+router.post('/import', async (req, res) => {
+  const credentials = readCredentials(req, res);
+  if (!credentials) return;
+
+  const weeks: Date[] = Array.isArray(req.body.weeks) && req.body.weeks.length > 0
+    ? req.body.weeks.map(parseWeek)
+    : [new Date(), new Date(Date.now() + WEEK_MS)];
+
+  const trace = new DiagnosticTrace();
+  const scraper = new EklaseScraper();
+  try {
+    const lessons = await scraper.fetchDiaryWeeks(weeks, trace, credentials);
+    res.json({ lessons });
+  } catch (error) {
+    sendError(res, error, 'Failed to import the E-klase diary', trace);
+  } finally {
+    await scraper.close();
+  }
+});
+
+export default router;
@@ -0,0 +1,216 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import OpenAI from 'openai';
+import { API_URL } from './eklase';
+import { DEFAULT_REMINDER_LANGUAGE, FreeTextGrade, FreeTextTask, ReminderLanguage, ReminderLesson, ReminderResponse } from './reminderPrompt';
+
+const SETTINGS_KEY_PREFIX = '@revisory_ai_settings_';
+// Issued once per install by the Revisory server, which rate-limits AI requests per token
+const INSTALL_TOKEN_KEY = '@revisory_ai_install_token';
+
+export type AiProviderId = 'server' | 'gemini' | 'openai' | 'compatible';
+
+export type AiSettings = {
+  provider: AiProviderId;
+  // Empty means the provider's default model
+  model: string;
+  // Never bundled with the app: typed in by the user, or held by the Revisory server
+  apiKey: string;
+  // Only used by 'compatible', e.g. http://192.168.1.10:11434/v1 for Ollama
+  baseUrl: string;
+  // Subjects generated at the same time; lower it for rate-limited keys or a slow local model
+  concurrency: number;
+  // Language of the generated theory and tasks
+  language: ReminderLanguage;
+};
+
+export type AiProvider = {
+  id: AiProviderId;
+  model: string;
+  /** Sends one prompt and returns the model's text reply, which should be JSON. */
+  generateJson: (prompt: string) => Promise<string>;
+  // Providers that build the reminder prompt themselves (the Revisory server) generate whole reminders
+  generateReminder?: (subject: string, lessons: ReminderLesson[], language: ReminderLanguage) => Promise<ReminderResponse>;
+  // ...and grade free-text answers the same way
+  gradeAnswer?: (task: FreeTextTask, answer: string, language: ReminderLanguage) => Promise<FreeTextGrade>;
+  /** Checks that the provider answers; resolves with a short description for the settings screen. */
+  ping: () => Promise<string>;
+};
+
+export type AiProviderInfo = {
+  id: AiProviderId;
+  label: string;
+  defaultModel: string;
+  needsApiKey: boolean;
+  needsBaseUrl: boolean;
+};
+
+export const AI_PROVIDERS: AiProviderInfo[] = [
+  { id: 'server', label: 'Revisory server', defaultModel: '', needsApiKey: false, needsBaseUrl: false },
+  { id: 'gemini', label: 'Google Gemini', defaultModel: 'gemini-2.5-flash', needsApiKey: true, needsBaseUrl: false },
+  { id: 'openai', label: 'OpenAI', defaultModel: 'gpt-4o-mini', needsApiKey: true, needsBaseUrl: false },
+  { id: 'compatible', label: 'Self-hosted (OpenAI-compatible)', defaultModel: 'llama3.1', needsApiKey: false, needsBaseUrl: true },
+];
+
+export const MAX_CONCURRENCY = 4;
+
+export const DEFAULT_AI_SETTINGS: AiSettings = {
+  provider: 'server',
+  model: '',
+  apiKey: '',
+  baseUrl: '',
+  concurrency: 2,
+  language: DEFAULT_REMINDER_LANGUAGE,
+};
+
+const getSettingsKey = (username: string) => `${SETTINGS_KEY_PREFIX}${username.toLowerCase()}`;
+
+export const getProviderInfo = (id: AiProviderId): AiProviderInfo =>
+  AI_PROVIDERS.find(provider => provider.id === id) || AI_PROVIDERS[0];
+
+export const getAiSettings = async (username: string): Promise<AiSettings> => {
+  try {
+    const raw = await AsyncStorage.getItem(getSettingsKey(username));
+    return raw ? { ...DEFAULT_AI_SETTINGS, ...JSON.parse(raw) } : DEFAULT_AI_SETTINGS;
+  } catch (error) {
+    console.error('Error loading AI settings:', error);
+    return DEFAULT_AI_SETTINGS;
+  }
+};
+
+export const saveAiSettings = async (username: string, settings: AiSettings): Promise<void> => {
+  await AsyncStorage.setItem(
+    getSettingsKey(username),
+    JSON.stringify({ ...settings, model: settings.model.trim(), apiKey: settings.apiKey.trim(), baseUrl: settings.baseUrl.trim() })
+  );
+};
+
+/** Returns an error message for settings that can't work, or null. */
+export const validateAiSettings = (settings: AiSettings): string | null => {
+  const info = getProviderInfo(settings.provider);
+  if (info.needsApiKey && !settings.apiKey.trim()) {
+    return `${info.label} needs an API key`;
+  }
+  if (info.needsBaseUrl && !/^https?:\/\/\S+$/.test(settings.baseUrl.trim())) {
+    return 'Enter the server URL, e.g. http://192.168.1.10:11434/v1';
+  }
+  return null;
+};
+
+// Keeps the HTTP status and Retry-After so reminder generation can back off on 429
+const readServerError = async (response: Response): Promise<Error> => {
+  const body = await response.json().catch(() => null);
+  const retryAfterSeconds = Number(response.headers.get('retry-after'));
+  return Object.assign(new Error(body?.error || `The Revisory server answered HTTP ${response.status}`), {
+    status: response.status,
+    retryAfterMs: retryAfterSeconds > 0 ? retryAfterSeconds * 1000 : undefined,
+  });
+};
+
+const fetchFromServer = async (path: string, init: RequestInit = {}): Promise<Response> => {
+  try {
+    return await fetch(`${API_URL}${path}`, init);
+  } catch (error: any) {
+    throw new Error(`Could not reach the Revisory server at ${API_URL}: ${error?.message || error}`);
+  }
+};
+
+const getInstallToken = async (): Promise<string> => {
+  const stored = await AsyncStorage.getItem(INSTALL_TOKEN_KEY);
+  if (stored) return stored;
+  const response = await fetchFromServer('/ai/token', { method: 'POST' });
+  if (!response.ok) throw await readServerError(response);
+  const { token } = await response.json();
+  await AsyncStorage.setItem(INSTALL_TOKEN_KEY, token);
+  return token;
+};
+
+const postToServer = async (path: string, body: object): Promise<unknown> => {
+  const send = async () =>
+    fetchFromServer(path, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${await getInstallToken()}` },
+      body: JSON.stringify(body),
+    });
+  let response = await send();
+  // The server no longer accepts the token (e.g. its AI_TOKEN_SECRET changed), so get a new one once
+  if (response.status === 401) {
+    await AsyncStorage.removeItem(INSTALL_TOKEN_KEY);
+    response = await send();
+  }
+  if (!response.ok) throw await readServerError(response);
+  return response.json();
+};
+
+// The server holds the Gemini key and rate-limits each install token (see server/routes/ai.ts)
+const createServerProvider = (): AiProvider => ({
+  id: 'server',
+  model: '',
+  generateJson: async () => {
+    throw new Error('The Revisory server only generates whole reminders');
+  },
+  generateReminder: async (subject, lessons, language) =>
+    (await postToServer('/ai/reminder', { subject, lessons, language })) as ReminderResponse,
+  gradeAnswer: async (task, answer, language) =>
+    (await postToServer('/ai/grade', { task, answer, language })) as FreeTextGrade,
+  ping: async () => {
+    const response = await fetchFromServer('/ai/status', { headers: { Authorization: `Bearer ${await getInstallToken()}` } });
+    if (!response.ok) throw await readServerError(response);
+    const status = await response.json();
+    if (!status.configured) throw new Error('The Revisory server has no Gemini API key configured');
+    return `Revisory server (${status.model}), ${status.remaining ?? '?'} reminders left this hour`;
+  },
+});
+
+export const createAiProvider = (settings: AiSettings): AiProvider => {
+  if (settings.provider === 'server') return createServerProvider();
+
+  const info = getProviderInfo(settings.provider);
+  const model = settings.model.trim() || info.defaultModel;
+  const apiKey = settings.apiKey.trim();
+  const settingsError = validateAiSettings(settings);
+
+  let generateJson: (prompt: string) => Promise<string>;
+  if (settings.provider === 'gemini') {
+    generateJson = async (prompt) => {
+      if (settingsError) throw new Error(settingsError);
+      const genAI = new GoogleGenerativeAI(apiKey);
+      const generativeModel = genAI.getGenerativeModel({
+        model,
+        generationConfig: { responseMimeType: 'application/json' },
+      });
+      const result = await generativeModel.generateContent(prompt);
+      return result.response.text();
+    };
+  } else {
+    // OpenAI and self-hosted servers (llama.cpp, Ollama, LM Studio, ...) share the chat completions API
+    generateJson = async (prompt) => {
+      if (settingsError) throw new Error(settingsError);
+      const client = new OpenAI({
+        apiKey: apiKey || 'not-needed',
+        baseURL: settings.provider === 'compatible' ? settings.baseUrl.trim().replace(/\/+$/, '') : undefined,
+        dangerouslyAllowBrowser: true,
+      });
+      const completion = await client.chat.completions.create({
+        model,
+        messages: [{ role: 'user', content: prompt }],
+        // Not every self-hosted server supports JSON mode; the prompt asks for JSON either way
+        ...(settings.provider === 'openai' ? { response_format: { type: 'json_object' as const } } : {}),
+      });
+      return completion.choices[0]?.message?.content || '';
+    };
+  }
+
+  return {
+    id: settings.provider,
+    model,
+    generateJson,
+    ping: async () => {
+      const reply = await generateJson('Reply with this JSON and nothing else: {"ok": true}');
+      return `${info.label} (${model}) replied: ${reply.trim().slice(0, 80)}`;
+    },
+  };
+};
+
+export const getAiProvider = async (username?: string): Promise<AiProvider> =>
+  createAiProvider(username ? await getAiSettings(username) : DEFAULT_AI_SETTINGS);
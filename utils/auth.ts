@@ -0,0 +1,166 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+
+// Local account credentials, stored next to each user's stats under their own key
+const ACCOUNT_KEY_PREFIX = '@revisory_account_';
+const SALT_BYTES = 16;
+const HASH_ROUNDS = 100;
+
+export const MIN_PASSWORD_LENGTH = 4;
+
+type StoredAccount = {
+  userName: string;
+  salt: string;
+  passwordHash: string;
+  createdAt: string;
+  passwordChangedAt?: string;
+};
+
+export type AuthResult = {
+  success: boolean;
+  message?: string;
+  userName?: string;
+};
+
+const getAccountKey = (username: string): string =>
+  `${ACCOUNT_KEY_PREFIX}${username.trim().toLowerCase()}`;
+
+// Same normalization getOrCreateUser applies (capitalize first letter)
+const normalizeUserName = (username: string): string => {
+  const trimmed = username.trim();
+  return trimmed.charAt(0).toUpperCase() + trimmed.slice(1);
+};
+
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes)
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+const generateSalt = (): string => toHex(Crypto.getRandomBytes(SALT_BYTES));
+
+const hashPassword = async (password: string, salt: string): Promise<string> => {
+  // Repeat the salted digest a few times so a leaked hash is slower to brute force
+  let hash = `${salt}:${password}`;
+  for (let round = 0; round < HASH_ROUNDS; round++) {
+    hash = await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${salt}${hash}`);
+  }
+  return hash;
+};
+
+const getAccount = async (username: string): Promise<StoredAccount | null> => {
+  const raw = await AsyncStorage.getItem(getAccountKey(username));
+  return raw ? (JSON.parse(raw) as StoredAccount) : null;
+};
+
+const saveAccount = async (account: StoredAccount): Promise<void> => {
+  await AsyncStorage.setItem(getAccountKey(account.userName), JSON.stringify(account));
+};
+
+export const validateUsername = (username: string): string | null => {
+  const trimmed = username.trim();
+  if (!trimmed) return 'Please enter a username';
+  if (trimmed.length < 3) return 'Username must be at least 3 characters';
+  if (trimmed.length > 20) return 'Username must be at most 20 characters';
+  if (!/^[\p{L}\d_]+$/u.test(trimmed)) return 'Username can only contain letters, numbers and _';
+  return null;
+};
+
+export const validatePassword = (password: string): string | null => {
+  if (!password) return 'Please enter a password';
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  return null;
+};
+
+export const hasAccount = async (username: string): Promise<boolean> => {
+  try {
+    return (await getAccount(username)) !== null;
+  } catch (error) {
+    console.error('Error checking account:', error);
+    return false;
+  }
+};
+
+export const signUp = async (username: string, password: string): Promise<AuthResult> => {
+  const usernameError = validateUsername(username);
+  if (usernameError) return { success: false, message: usernameError };
+  const passwordError = validatePassword(password);
+  if (passwordError) return { success: false, message: passwordError };
+
+  try {
+    if (await getAccount(username)) {
+      return { success: false, message: 'This username is already taken' };
+    }
+
+    const salt = generateSalt();
+    const account: StoredAccount = {
+      userName: normalizeUserName(username),
+      salt,
+      passwordHash: await hashPassword(password, salt),
+      createdAt: new Date().toISOString(),
+    };
+    await saveAccount(account);
+    return { success: true, userName: account.userName };
+  } catch (error) {
+    console.error('Error creating account:', error);
+    return { success: false, message: 'Failed to create account. Please try again.' };
+  }
+};
+
+export const signIn = async (username: string, password: string): Promise<AuthResult> => {
+  if (!username.trim() || !password) {
+    return { success: false, message: 'Please enter both username and password' };
+  }
+
+  try {
+    const account = await getAccount(username);
+    if (!account) {
+      return { success: false, message: 'No account found with this username' };
+    }
+
+    const passwordHash = await hashPassword(password, account.salt);
+    if (passwordHash !== account.passwordHash) {
+      return { success: false, message: 'Incorrect password' };
+    }
+
+    return { success: true, userName: account.userName };
+  } catch (error) {
+    console.error('Error signing in:', error);
+    return { success: false, message: 'Failed to sign in. Please try again.' };
+  }
+};
+
+export const changePassword = async (
+  username: string,
+  currentPassword: string,
+  newPassword: string
+): Promise<AuthResult> => {
+  const passwordError = validatePassword(newPassword);
+  if (passwordError) return { success: false, message: passwordError };
+
+  try {
+    const account = await getAccount(username);
+    if (!account) {
+      return { success: false, message: 'No account found with this username' };
+    }
+
+    const currentHash = await hashPassword(currentPassword, account.salt);
+    if (currentHash !== account.passwordHash) {
+      return { success: false, message: 'Current password is incorrect' };
+    }
+
+    // Rotate the salt together with the password
+    const salt = generateSalt();
+    await saveAccount({
+      ...account,
+      salt,
+      passwordHash: await hashPassword(newPassword, salt),
+      passwordChangedAt: new Date().toISOString(),
+    });
+    return { success: true, userName: account.userName };
+  } catch (error) {
+    console.error('Error changing password:', error);
+    return { success: false, message: 'Failed to change password. Please try again.' };
+  }
+};
@@ -0,0 +1,194 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState } from 'react-native';
+import { Lesson, getLessons, saveLessons } from './database';
+import { getDeletedLessonKeys } from './lessons';
+import {
+  expireEklaseSession,
+  fetchEklaseWeeks,
+  getEklaseSession,
+  getSyncWeeks,
+  mergeImportedLessons,
+  needsEklaseReconnect,
+} from './eklase';
+
+const CHANGES_KEY_PREFIX = '@revisory_homework_changes_';
+const LAST_SYNC_KEY_PREFIX = '@revisory_last_diary_sync_';
+const MAX_STORED_CHANGES = 200;
+
+export const DIARY_SYNC_INTERVAL_MS = 30 * 60 * 1000;
+
+export type HomeworkChangeKind = 'added' | 'changed' | 'removed';
+
+export type HomeworkChange = {
+  id: string;
+  date: string;
+  subject: string;
+  kind: HomeworkChangeKind;
+  previousHomework?: string;
+  homework?: string;
+  detectedAt: string;
+};
+
+export type DiarySyncResult = {
+  success: boolean;
+  changes: HomeworkChange[];
+  message?: string;
+  // The backend lost the E-klase session; syncing stays off until the user reconnects
+  needsReconnect?: boolean;
+};
+
+const getChangesKey = (username: string) => `${CHANGES_KEY_PREFIX}${username.toLowerCase()}`;
+
+// Homework of all lessons of one subject on one date, keyed "date|subject"
+const groupHomework = (lessons: Lesson[], dates: Set<string>): Map<string, string> => {
+  const grouped = new Map<string, string[]>();
+  for (const lesson of lessons) {
+    if (!dates.has(lesson.date)) continue;
+    const key = `${lesson.date}|${lesson.subject}`;
+    const homework = (lesson.homework || '').trim();
+    grouped.set(key, [...(grouped.get(key) || []), ...(homework ? [homework] : [])]);
+  }
+  return new Map(Array.from(grouped.entries()).map(([key, parts]) => [key, parts.join('\n')]));
+};
+
+/**
+ * Compares homework per date and subject between the stored and a freshly
+ * fetched diary. Only `dates` (the fetched diary weeks) are compared.
+ */
+export const diffHomework = (
+  stored: Lesson[],
+  fresh: Lesson[],
+  dates: string[],
+  detectedAt: string = new Date().toISOString()
+): HomeworkChange[] => {
+  const dateSet = new Set(dates);
+  const before = groupHomework(stored, dateSet);
+  const after = groupHomework(fresh, dateSet);
+  const keys = new Set([...before.keys(), ...after.keys()]);
+
+  const changes: HomeworkChange[] = [];
+  for (const key of keys) {
+    const [date, subject] = key.split('|');
+    const previousHomework = before.get(key) || '';
+    const homework = after.get(key) || '';
+    if (previousHomework === homework) continue;
+
+    const kind: HomeworkChangeKind = !previousHomework ? 'added' : !homework ? 'removed' : 'changed';
+    changes.push({
+      id: `${detectedAt}|${key}`,
+      date,
+      subject,
+      kind,
+      previousHomework: previousHomework || undefined,
+      homework: homework || undefined,
+      detectedAt,
+    });
+  }
+  return changes.sort((a, b) => a.date.localeCompare(b.date) || a.subject.localeCompare(b.subject));
+};
+
+/** All recorded homework changes, newest first. */
+export const getHomeworkChanges = async (username: string): Promise<HomeworkChange[]> => {
+  try {
+    const raw = await AsyncStorage.getItem(getChangesKey(username));
+    return raw ? (JSON.parse(raw) as HomeworkChange[]) : [];
+  } catch (error) {
+    console.error('Error loading homework changes:', error);
+    return [];
+  }
+};
+
+/** Latest change per subject for one date (used for the "homework changed" badges). */
+export const getHomeworkChangesForDate = async (
+  username: string,
+  date: string
+): Promise<Map<string, HomeworkChange>> => {
+  const bySubject = new Map<string, HomeworkChange>();
+  for (const change of await getHomeworkChanges(username)) {
+    if (change.date === date && !bySubject.has(change.subject)) {
+      bySubject.set(change.subject, change);
+    }
+  }
+  return bySubject;
+};
+
+const recordHomeworkChanges = async (username: string, changes: HomeworkChange[]): Promise<void> => {
+  if (changes.length === 0) return;
+  const existing = await getHomeworkChanges(username);
+  const feed = [...changes, ...existing].slice(0, MAX_STORED_CHANGES);
+  await AsyncStorage.setItem(getChangesKey(username), JSON.stringify(feed));
+};
+
+export const getLastDiarySync = (username: string): Promise<string | null> =>
+  AsyncStorage.getItem(`${LAST_SYNC_KEY_PREFIX}${username.toLowerCase()}`);
+
+/**
+ * Fetches the current and next diary week, records homework changes against
+ * the stored lessons and saves the fresh lessons.
+ */
+export const syncDiary = async (username: string): Promise<DiarySyncResult> => {
+  const sessionId = await getEklaseSession(username);
+  if (!sessionId) {
+    return { success: false, changes: [], message: 'E-klase is not connected', needsReconnect: await needsEklaseReconnect(username) };
+  }
+
+  try {
+    const result = await fetchEklaseWeeks(sessionId, getSyncWeeks());
+    // Sessions expire after 12 idle hours and don't survive a server restart
+    if (result.status === 401) {
+      await expireEklaseSession(username);
+      return { success: false, changes: [], message: 'The E-klase session expired', needsReconnect: true };
+    }
+    if (!result.success || !result.lessons || !result.dates) {
+      return { success: false, changes: [], message: result.message };
+    }
+
+    const stored = await getLessons(username);
+    // Diff against the merged lessons so subjects overridden by manual lessons don't show as changed
+    const merged = mergeImportedLessons(stored, result.lessons, result.dates, await getDeletedLessonKeys(username));
+    const changes = diffHomework(stored, merged, result.dates);
+    await saveLessons(username, merged);
+    await recordHomeworkChanges(username, changes);
+    await AsyncStorage.setItem(`${LAST_SYNC_KEY_PREFIX}${username.toLowerCase()}`, new Date().toISOString());
+    return { success: true, changes };
+  } catch (error: any) {
+    console.error('Error syncing diary:', error);
+    return { success: false, changes: [], message: error?.message || 'Diary sync failed' };
+  }
+};
+
+/**
+ * Syncs right away, then every `intervalMs` and whenever the app returns to
+ * the foreground. Returns a function that stops the sync.
+ */
+export const startDiarySync = (
+  username: string,
+  onSynced: (result: DiarySyncResult) => void,
+  intervalMs: number = DIARY_SYNC_INTERVAL_MS
+): (() => void) => {
+  let isSyncing = false;
+  let lastRunAt = 0;
+
+  const run = async () => {
+    if (isSyncing) return;
+    isSyncing = true;
+    lastRunAt = Date.now();
+    try {
+      onSynced(await syncDiary(username));
+    } finally {
+      isSyncing = false;
+    }
+  };
+
+  run();
+  const interval = setInterval(run, intervalMs);
+  const subscription = AppState.addEventListener('change', (state) => {
+    // Catch up after the app was in the background for a full interval
+    if (state === 'active' && Date.now() - lastRunAt >= intervalMs) run();
+  });
+
+  return () => {
+    clearInterval(interval);
+    subscription.remove();
+  };
+};
@@ -0,0 +1,163 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Lesson } from './database';
+import { isManualLesson, withoutManualOverrides } from './lessons';
+import { getToday, toIsoDate } from './schoolCalendar';
+
+// Backend that talks to E-klase (see server/). Point it at your machine's LAN IP when running on a device.
+export const API_URL = process.env.EXPO_PUBLIC_API_URL || 'http://localhost:3001';
+
+const SESSION_KEY_PREFIX = '@revisory_eklase_session_';
+// Set when the backend no longer knows the session (expired or server restarted) until the user signs in again
+const RECONNECT_KEY_PREFIX = '@revisory_eklase_reconnect_';
+const DAY_MS = 24 * 3600 * 1000;
+
+export type EklaseCredentials = {
+  username: string;
+  password: string;
+};
+
+export type EklaseImportResult = {
+  success: boolean;
+  lessons?: Lesson[];
+  dates?: string[];
+  message?: string;
+  details?: string;
+  // HTTP status of a failed backend call; 401 means the session is gone
+  status?: number;
+};
+
+type ApiResult<T> = { ok: true; body: T } | { ok: false; status: number; message: string; details?: string };
+
+const request = async <T>(path: string, init: RequestInit = {}): Promise<ApiResult<T>> => {
+  let response: Response;
+  try {
+    response = await fetch(`${API_URL}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init.headers },
+    });
+  } catch (error: any) {
+    return {
+      ok: false,
+      status: 0,
+      message: 'Could not reach the Revisory server',
+      details: `${API_URL} is not reachable: ${error?.message || error}`,
+    };
+  }
+
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    return {
+      ok: false,
+      status: response.status,
+      message: body?.error || `Request failed (HTTP ${response.status})`,
+      details: body?.details,
+    };
+  }
+  return { ok: true, body };
+};
+
+/** Mondays of the current and the next diary week. */
+export const getSyncWeeks = (today: Date = getToday()): Date[] => {
+  const dayOffset = today.getDay() === 0 ? 6 : today.getDay() - 1;
+  const monday = new Date(today.getFullYear(), today.getMonth(), today.getDate() - dayOffset);
+  return [monday, new Date(monday.valueOf() + 7 * DAY_MS)];
+};
+
+/** Every date (YYYY-MM-DD) inside the given diary weeks. */
+export const getWeekDates = (weeks: Date[]): string[] =>
+  weeks.flatMap(monday =>
+    Array.from({ length: 7 }, (_, day) =>
+      toIsoDate(new Date(monday.getFullYear(), monday.getMonth(), monday.getDate() + day))
+    )
+  );
+
+export const getEklaseSession = (username: string): Promise<string | null> =>
+  AsyncStorage.getItem(`${SESSION_KEY_PREFIX}${username.toLowerCase()}`);
+
+export const clearEklaseSession = async (username: string): Promise<void> => {
+  await AsyncStorage.multiRemove([
+    `${SESSION_KEY_PREFIX}${username.toLowerCase()}`,
+    `${RECONNECT_KEY_PREFIX}${username.toLowerCase()}`,
+  ]);
+};
+
+/** Forgets a session the backend rejected and remembers that the user has to reconnect. */
+export const expireEklaseSession = async (username: string): Promise<void> => {
+  await AsyncStorage.removeItem(`${SESSION_KEY_PREFIX}${username.toLowerCase()}`);
+  await AsyncStorage.setItem(`${RECONNECT_KEY_PREFIX}${username.toLowerCase()}`, new Date().toISOString());
+};
+
+export const needsEklaseReconnect = async (username: string): Promise<boolean> =>
+  !!(await AsyncStorage.getItem(`${RECONNECT_KEY_PREFIX}${username.toLowerCase()}`));
+
+/** Ends the backend session (best effort) and forgets it on this device. */
+export const logoutEklase = async (username: string): Promise<void> => {
+  const sessionId = await getEklaseSession(username);
+  if (sessionId) {
+    const result = await request<{ ok: boolean }>('/eklase/logout', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${sessionId}` },
+    });
+    if (!result.ok) console.warn('E-klase logout failed:', result.message);
+  }
+  await clearEklaseSession(username);
+};
+
+/** Reads the given diary weeks with an existing backend session. */
+export const fetchEklaseWeeks = async (sessionId: string, weeks: Date[]): Promise<EklaseImportResult> => {
+  const lessons: Lesson[] = [];
+  for (const week of weeks) {
+    const result = await request<{ lessons: Lesson[] }>(`/eklase/diary?week=${toIsoDate(week)}`, {
+      headers: { Authorization: `Bearer ${sessionId}` },
+    });
+    if (!result.ok) {
+      return { success: false, message: result.message, details: result.details, status: result.status };
+    }
+    lessons.push(...(Array.isArray(result.body?.lessons) ? result.body.lessons : []));
+  }
+  return { success: true, lessons, dates: getWeekDates(weeks) };
+};
+
+/**
+ * Signs in to E-klase through the backend, reads the current and next diary
+ * week and remembers the session so the diary can be synced later.
+ */
+export const importEklaseLessons = async (
+  username: string,
+  credentials: EklaseCredentials
+): Promise<EklaseImportResult> => {
+  const login = await request<{ sessionId: string }>('/eklase/login', {
+    method: 'POST',
+    body: JSON.stringify(credentials),
+  });
+  if (!login.ok) {
+    return { success: false, message: login.message, details: login.details };
+  }
+  await AsyncStorage.setItem(`${SESSION_KEY_PREFIX}${username.toLowerCase()}`, login.body.sessionId);
+  await AsyncStorage.removeItem(`${RECONNECT_KEY_PREFIX}${username.toLowerCase()}`);
+
+  const result = await fetchEklaseWeeks(login.body.sessionId, getSyncWeeks());
+  if (result.success && (result.lessons || []).length === 0) {
+    return {
+      success: false,
+      message: 'No lessons found in your E-klase diary',
+      details: 'The diary pages loaded, but no lessons could be read from them.',
+    };
+  }
+  return result;
+};
+
+// Replaces stored diary lessons on the imported dates and keeps everything else, including manual lessons;
+// diary lessons the user deleted stay deleted
+export const mergeImportedLessons = (
+  existing: Lesson[],
+  imported: Lesson[],
+  dates: string[] = imported.map(lesson => lesson.date),
+  deletedKeys: string[] = []
+): Lesson[] => {
+  const importedDates = new Set(dates);
+  return [
+    ...existing.filter(lesson => isManualLesson(lesson) || !importedDates.has(lesson.date)),
+    ...withoutManualOverrides(existing, imported, deletedKeys),
+  ];
+};
@@ -0,0 +1,117 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Lesson } from './database';
+import { getToday, parseIsoDate, toIsoDate } from './schoolCalendar';
+import { SubjectFilterRules, hasCountableHomework, isSubjectExcluded } from './subjectFilters';
+
+const COMPLETIONS_KEY_PREFIX = '@revisory_homework_done_';
+
+export type HomeworkCompletion = {
+  date: string;
+  subject: string;
+  homework: string;
+  completedAt: string;
+};
+
+export type HomeworkItem = {
+  key: string;
+  date: string;
+  subject: string;
+  homework: string;
+  completedAt?: string;
+};
+
+export type SubjectHomeworkHistory = {
+  subject: string;
+  done: number;
+  total: number;
+  items: HomeworkItem[];
+};
+
+const getCompletionsKey = (username: string) => `${COMPLETIONS_KEY_PREFIX}${username.toLowerCase()}`;
+
+// Homework is due on the lesson it is listed for, so date and subject identify it
+export const getHomeworkKey = (lesson: Pick<Lesson, 'date' | 'subject'>): string =>
+  `${lesson.date}|${lesson.subject.trim().toLowerCase()}`;
+
+/** Checked-off homework keyed by getHomeworkKey. */
+export const getHomeworkCompletions = async (username: string): Promise<Record<string, HomeworkCompletion>> => {
+  try {
+    const raw = await AsyncStorage.getItem(getCompletionsKey(username));
+    return raw ? (JSON.parse(raw) as Record<string, HomeworkCompletion>) : {};
+  } catch (error) {
+    console.error('Error loading homework completions:', error);
+    return {};
+  }
+};
+
+export const setHomeworkDone = async (
+  username: string,
+  lesson: Lesson,
+  done: boolean
+): Promise<Record<string, HomeworkCompletion>> => {
+  const completions = await getHomeworkCompletions(username);
+  const key = getHomeworkKey(lesson);
+  if (done) {
+    completions[key] = {
+      date: lesson.date,
+      subject: lesson.subject,
+      homework: (lesson.homework || '').trim(),
+      completedAt: getToday().toISOString(),
+    };
+  } else {
+    delete completions[key];
+  }
+  await AsyncStorage.setItem(getCompletionsKey(username), JSON.stringify(completions));
+  return completions;
+};
+
+/** One item per date and subject with homework that counts under the filter rules. */
+export const getHomeworkItems = (
+  lessons: Lesson[],
+  completions: Record<string, HomeworkCompletion>,
+  rules: SubjectFilterRules
+): HomeworkItem[] => {
+  const items = new Map<string, HomeworkItem>();
+  for (const lesson of lessons) {
+    if (isSubjectExcluded(lesson.subject, rules) || !hasCountableHomework(lesson, rules)) continue;
+    const key = getHomeworkKey(lesson);
+    const homework = (lesson.homework || '').trim();
+    const existing = items.get(key);
+    if (existing) {
+      // Double lessons can list the same homework twice
+      if (!existing.homework.includes(homework)) existing.homework += `\n${homework}`;
+      continue;
+    }
+    items.set(key, {
+      key,
+      date: lesson.date,
+      subject: lesson.subject,
+      homework,
+      completedAt: completions[key]?.completedAt,
+    });
+  }
+  return Array.from(items.values()).sort((a, b) => a.date.localeCompare(b.date) || a.subject.localeCompare(b.subject));
+};
+
+/** Unfinished homework that was due before today, however old, oldest first. */
+export const getOverdueHomework = (items: HomeworkItem[], today: Date = getToday()): HomeworkItem[] => {
+  const todayIso = toIsoDate(today);
+  return items.filter(item => !item.completedAt && item.date < todayIso);
+};
+
+/** Done/total per subject, newest homework first. Only homework due by `until` counts. */
+export const getHomeworkHistory = (items: HomeworkItem[], until: string): SubjectHomeworkHistory[] => {
+  const bySubject = new Map<string, SubjectHomeworkHistory>();
+  for (const item of items) {
+    if (item.date > until && !item.completedAt) continue;
+    const history = bySubject.get(item.subject) || { subject: item.subject, done: 0, total: 0, items: [] };
+    history.total++;
+    if (item.completedAt) history.done++;
+    history.items.unshift(item);
+    bySubject.set(item.subject, history);
+  }
+  return Array.from(bySubject.values()).sort((a, b) => a.subject.localeCompare(b.subject));
+};
+
+export const daysOverdue = (item: HomeworkItem, today: Date = getToday()): number =>
+  Math.round((parseIsoDate(toIsoDate(today)).valueOf() - parseIsoDate(item.date).valueOf()) / 86400000);
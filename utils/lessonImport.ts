@@ -0,0 +1,342 @@
+import { Lesson } from './database';
+
+export type ImportFormat = 'ics' | 'csv';
+
+export type ParseResult = {
+  lessons: Lesson[];
+  errors: string[];
+  // Entries that were read, but not completely (a repeat cut short, lesson times left out)
+  warnings: string[];
+};
+
+export type ImportPreviewItem = {
+  lesson: Lesson;
+  status: 'new' | 'updated' | 'duplicate';
+};
+
+export type ImportPreview = {
+  items: ImportPreviewItem[];
+  added: number;
+  updated: number;
+  duplicates: number;
+  merged: Lesson[];
+};
+
+// Repeating events are expanded at most this far past their first date
+const MAX_RECURRENCE_DAYS = 366;
+const DAY_MS = 24 * 3600 * 1000;
+const ICS_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const HOMEWORK_PREFIX = /^(homework|mājasdarbs|mājas darbs|uzdots)\s*:\s*/i;
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+// Accepts YYYY-MM-DD, DD.MM.YYYY(.) and DD/MM/YYYY
+const parseDate = (value: string): string | null => {
+  const trimmed = value.trim();
+  let match = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (match) return `${match[1]}-${pad(Number(match[2]))}-${pad(Number(match[3]))}`;
+  match = trimmed.match(/^(\d{1,2})[./](\d{1,2})[./](\d{4})\.?$/);
+  if (match) return `${match[3]}-${pad(Number(match[2]))}-${pad(Number(match[1]))}`;
+  return null;
+};
+
+// ---- iCalendar (.ics) ----
+
+const unescapeIcsText = (value: string): string =>
+  value
+    .replace(/\\n/gi, '\n')
+    .replace(/\\([,;\\])/g, '$1')
+    .trim();
+
+// DTSTART is either a DATE (20251105) or DATE-TIME (20251105T081500[Z])
+const parseIcsDate = (value: string): string | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second, utc] = match;
+  if (utc && hour) {
+    // UTC times can fall on another calendar day locally
+    const local = new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second));
+    return `${local.getFullYear()}-${pad(local.getMonth() + 1)}-${pad(local.getDate())}`;
+  }
+  return `${year}-${month}-${day}`;
+};
+
+// Dates as whole days since 1970-01-01, so adding days never trips over daylight saving time
+const toDayNumber = (date: string): number => {
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day) / DAY_MS;
+};
+
+const fromDayNumber = (dayNumber: number): string => {
+  const date = new Date(dayNumber * DAY_MS);
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+};
+
+// 0 is Sunday, like Date.getDay(); 1970-01-01 was a Thursday
+const weekdayOf = (dayNumber: number): number => (((dayNumber + 4) % 7) + 7) % 7;
+
+/**
+ * Dates of a repeating event (RFC 5545 RRULE) from its first date. DAILY and
+ * WEEKLY rules with INTERVAL, COUNT, UNTIL and BYDAY are expanded, EXDATE dates
+ * left out. Anything else, or a repeat beyond MAX_RECURRENCE_DAYS, comes with a warning.
+ */
+const expandRecurrence = (
+  start: string,
+  rule: string,
+  excluded: Set<string>
+): { dates: string[]; warning?: string } => {
+  const parts = Object.fromEntries(
+    rule.split(';').map(part => part.split('=') as [string, string]).map(([key, value]) => [key.toUpperCase(), value || ''])
+  );
+  const frequency = (parts.FREQ || '').toUpperCase();
+  if (frequency !== 'DAILY' && frequency !== 'WEEKLY') {
+    return { dates: [start], warning: `repeats ${frequency.toLowerCase() || 'in an unknown way'}, only the first date was imported` };
+  }
+
+  const interval = Math.max(1, Number(parts.INTERVAL) || 1);
+  const count = parts.COUNT ? Number(parts.COUNT) : Infinity;
+  const until = parts.UNTIL ? parseIcsDate(parts.UNTIL) : null;
+  // "BYDAY=MO,WE" or "1MO"; ordinals only mean something for monthly rules
+  const weekdays = parts.BYDAY
+    ? parts.BYDAY.split(',').map(day => ICS_WEEKDAYS.indexOf(day.replace(/^[-+]?\d+/, '').toUpperCase())).filter(day => day >= 0)
+    : [];
+
+  const first = toDayNumber(start);
+  const last = first + MAX_RECURRENCE_DAYS;
+  const end = until ? Math.min(toDayNumber(until), last) : last;
+  const firstWeek = first - ((weekdayOf(first) + 6) % 7);
+  const dates: string[] = [];
+  let occurrences = 0;
+  let day = first;
+  for (; day <= end && occurrences < count; day++) {
+    const inInterval =
+      frequency === 'DAILY' ? (day - first) % interval === 0 : Math.floor((day - firstWeek) / 7) % interval === 0;
+    const onWeekday =
+      weekdays.length > 0 ? weekdays.includes(weekdayOf(day)) : frequency === 'DAILY' || weekdayOf(day) === weekdayOf(first);
+    if (day !== first && !(inInterval && onWeekday)) continue;
+    // COUNT includes dates that EXDATE removes again
+    occurrences++;
+    if (!excluded.has(fromDayNumber(day))) dates.push(fromDayNumber(day));
+  }
+
+  const cutShort = day > last && occurrences < count && (!until || toDayNumber(until) > last);
+  return {
+    dates,
+    warning: cutShort ? `repeats beyond ${MAX_RECURRENCE_DAYS} days, only the first ${dates.length} dates were imported` : undefined,
+  };
+};
+
+/**
+ * Each VEVENT becomes a lesson: SUMMARY is the subject ("Subject: Topic" or
+ * "Subject - Topic" also sets the topic), DESCRIPTION lines starting with
+ * "Homework:" are the homework and the other lines the topic. Weekly or daily
+ * RRULEs add a lesson per date (see expandRecurrence); lesson times are dropped.
+ */
+export const parseIcs = (text: string): ParseResult => {
+  // Unfold continuation lines (RFC 5545: CRLF followed by a space or tab)
+  const lines = text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const lessons: Lesson[] = [];
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  let hasTimes = false;
+
+  let event: Record<string, string> | null = null;
+  let eventIndex = 0;
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      event = {};
+      eventIndex++;
+      continue;
+    }
+    if (line === 'END:VEVENT' && event) {
+      const summary = unescapeIcsText(event.SUMMARY || '');
+      const date = parseIcsDate(event.DTSTART || '');
+      if (!summary || !date) {
+        errors.push(`Event ${eventIndex}: missing ${!summary ? 'SUMMARY' : 'DTSTART'}`);
+      } else {
+        const summaryParts = summary.match(/^(.*?)\s*(?::|\s-\s)\s*(.*)$/);
+        const subject = summaryParts ? summaryParts[1] : summary;
+        const summaryTopic = summaryParts && summaryParts[2] ? [summaryParts[2]] : [];
+        const descriptionLines = unescapeIcsText(event.DESCRIPTION || '').split('\n').map(l => l.trim()).filter(Boolean);
+        const homework = descriptionLines.filter(l => HOMEWORK_PREFIX.test(l)).map(l => l.replace(HOMEWORK_PREFIX, ''));
+        const topic = [...summaryTopic, ...descriptionLines.filter(l => !HOMEWORK_PREFIX.test(l))];
+        hasTimes = hasTimes || (event.DTSTART || '').includes('T');
+
+        const excluded = new Set(
+          (event.EXDATE || '').split(',').map(value => parseIcsDate(value.trim())).filter((value): value is string => !!value)
+        );
+        const recurrence = event.RRULE ? expandRecurrence(date, event.RRULE, excluded) : { dates: [date] };
+        if (recurrence.warning) warnings.push(`Event ${eventIndex} (${subject.trim()}): ${recurrence.warning}`);
+        for (const lessonDate of recurrence.dates) {
+          lessons.push({
+            subject: subject.trim(),
+            topic: topic.join(' ').trim(),
+            homework: homework.join('\n'),
+            date: lessonDate,
+          });
+        }
+      }
+      event = null;
+      continue;
+    }
+    if (!event) continue;
+
+    // "DTSTART;TZID=Europe/Riga:20251105T081500" -> DTSTART / 20251105T081500
+    const separator = line.indexOf(':');
+    if (separator < 0) continue;
+    const name = line.slice(0, separator).split(';')[0].toUpperCase();
+    const value = line.slice(separator + 1);
+    // EXDATE may be given on several lines
+    event[name] = name === 'EXDATE' && event.EXDATE ? `${event.EXDATE},${value}` : value;
+  }
+
+  if (hasTimes) warnings.push('Lesson times were left out: lessons are stored by date only');
+  return { lessons, errors, warnings };
+};
+
+// ---- CSV ----
+
+// RFC 4180 style: quoted fields may contain the delimiter, newlines and "" escapes
+const parseCsvRows = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+/**
+ * CSV with a header row naming the columns date, subject, topic and homework
+ * (any order; topic and homework optional). Comma or semicolon separated.
+ */
+export const parseCsv = (text: string): ParseResult => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''), delimiter);
+  if (!header) return { lessons: [], errors: ['The file is empty'], warnings: [] };
+
+  const columns = header.map(name => name.trim().toLowerCase());
+  const column = (name: string) => columns.indexOf(name);
+  if (column('date') < 0 || column('subject') < 0) {
+    return { lessons: [], errors: ['The header must contain at least "date" and "subject" columns'], warnings: [] };
+  }
+
+  const lessons: Lesson[] = [];
+  const errors: string[] = [];
+  rows.forEach((cells, index) => {
+    const lineNumber = index + 2;
+    const cell = (name: string) => (column(name) >= 0 ? (cells[column(name)] || '').trim() : '');
+    const date = parseDate(cell('date'));
+    if (!date) {
+      errors.push(`Row ${lineNumber}: invalid date "${cell('date')}"`);
+      return;
+    }
+    if (!cell('subject')) {
+      errors.push(`Row ${lineNumber}: missing subject`);
+      return;
+    }
+    lessons.push({ subject: cell('subject'), topic: cell('topic'), homework: cell('homework'), date });
+  });
+
+  return { lessons, errors, warnings: [] };
+};
+
+export const parseLessonFile = (format: ImportFormat, text: string): ParseResult =>
+  format === 'ics' ? parseIcs(text) : parseCsv(text);
+
+// ---- De-duplication and merging ----
+
+const lessonKey = (lesson: Lesson): string => `${lesson.date}|${lesson.subject.trim().toLowerCase()}`;
+
+const sameContent = (a: Lesson, b: Lesson): boolean =>
+  (a.topic || '').trim() === (b.topic || '').trim() && (a.homework || '').trim() === (b.homework || '').trim();
+
+/**
+ * Works out what saving `imported` would do. A subject can have several lessons
+ * on one date (double periods), so each imported lesson matches one stored lesson
+ * of that date and subject: the one with the same topic, else the next unmatched
+ * one in order. A match is updated with the fields the import fills in; it only
+ * counts as updated when that changes the stored lesson.
+ */
+export const previewImport = (existing: Lesson[], imported: Lesson[]): ImportPreview => {
+  const merged = [...existing];
+  const indexesByKey = new Map<string, number[]>();
+  existing.forEach((lesson, index) => {
+    indexesByKey.set(lessonKey(lesson), [...(indexesByKey.get(lessonKey(lesson)) || []), index]);
+  });
+  const matched = new Set<number>();
+  const items: ImportPreviewItem[] = [];
+
+  for (const lesson of imported) {
+    const indexes = indexesByKey.get(lessonKey(lesson)) || [];
+    const unmatched = indexes.filter(index => !matched.has(index));
+    const topic = (lesson.topic || '').trim();
+    const index = unmatched.find(i => topic && (merged[i].topic || '').trim() === topic) ?? unmatched[0];
+
+    if (index === undefined) {
+      // The same row twice in the file, or a lesson already added from it
+      if (indexes.some(i => sameContent(merged[i], lesson))) {
+        items.push({ lesson, status: 'duplicate' });
+        continue;
+      }
+      matched.add(merged.length);
+      indexesByKey.set(lessonKey(lesson), [...indexes, merged.length]);
+      merged.push(lesson);
+      items.push({ lesson, status: 'new' });
+      continue;
+    }
+
+    matched.add(index);
+    const updated = {
+      ...merged[index],
+      topic: lesson.topic || merged[index].topic,
+      homework: lesson.homework || merged[index].homework,
+    };
+    if (sameContent(merged[index], updated)) {
+      items.push({ lesson, status: 'duplicate' });
+    } else {
+      merged[index] = updated;
+      items.push({ lesson: updated, status: 'updated' });
+    }
+  }
+
+  return {
+    items,
+    added: items.filter(item => item.status === 'new').length,
+    updated: items.filter(item => item.status === 'updated').length,
+    duplicates: items.filter(item => item.status === 'duplicate').length,
+    merged,
+  };
+};
@@ -0,0 +1,178 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Lesson, getLessons, saveLessons } from './database';
+
+const DELETED_KEY_PREFIX = '@revisory_deleted_lessons_';
+const MAX_DELETED_LESSONS = 500;
+
+// Lessons entered or edited in the app carry source 'manual'; everything else came from a diary import
+export type LessonSource = 'diary' | 'manual';
+
+export type ManagedLesson = Lesson & {
+  id?: string;
+  source?: LessonSource;
+  updatedAt?: string;
+  // Diary lessons: which diary lesson this is (see getDiaryKey), set when a sync or import stores it
+  diaryKey?: string;
+  // A manual lesson made by editing a diary lesson: that lesson's diaryKey, which syncs then leave out
+  replacesDiaryKey?: string;
+};
+
+export type LessonDraft = {
+  subject: string;
+  date: string;
+  topic: string;
+  homework: string;
+};
+
+export type LessonEditResult = {
+  success: boolean;
+  message?: string;
+  lessons?: ManagedLesson[];
+};
+
+export const isManualLesson = (lesson: Lesson): boolean => (lesson as ManagedLesson).source === 'manual';
+
+const generateLessonId = (): string => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const subjectKey = (lesson: Lesson): string => `${lesson.date}|${lesson.subject.trim().toLowerCase()}`;
+
+export const validateLessonDraft = (draft: LessonDraft): string | null => {
+  if (!draft.subject.trim()) return 'Please enter a subject';
+  const match = draft.date.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return 'Date must look like 2025-11-05';
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  if (date.getMonth() !== Number(match[2]) - 1 || date.getDate() !== Number(match[3])) {
+    return 'This date does not exist';
+  }
+  return null;
+};
+
+// Stored lessons have no ids unless they were saved here, so diary lessons are found by content
+const findLessonIndex = (lessons: ManagedLesson[], target: ManagedLesson): number => {
+  if (target.id) return lessons.findIndex(lesson => lesson.id === target.id);
+  return lessons.findIndex(
+    lesson =>
+      !lesson.id &&
+      lesson.date === target.date &&
+      lesson.subject === target.subject &&
+      (lesson.topic || '') === (target.topic || '') &&
+      (lesson.homework || '') === (target.homework || '')
+  );
+};
+
+const toManualLesson = (draft: LessonDraft, id: string = generateLessonId(), replacesDiaryKey?: string): ManagedLesson => ({
+  id,
+  subject: draft.subject.trim(),
+  date: draft.date.trim(),
+  topic: draft.topic.trim(),
+  homework: draft.homework.trim(),
+  source: 'manual',
+  updatedAt: new Date().toISOString(),
+  ...(replacesDiaryKey ? { replacesDiaryKey } : {}),
+});
+
+// "date|subject|n" for the nth diary lesson of the subject that day, so double periods stay apart
+const diaryKeyAt = (lessons: Lesson[], index: number): string => {
+  const key = subjectKey(lessons[index]);
+  const before = lessons.slice(0, index).filter(lesson => !isManualLesson(lesson) && subjectKey(lesson) === key);
+  return `${key}|${before.length}`;
+};
+
+// Lessons stored before diary keys existed get theirs from their position
+const getDiaryKey = (lessons: ManagedLesson[], index: number): string => lessons[index].diaryKey || diaryKeyAt(lessons, index);
+
+// The diary lesson a stored lesson stands for, or undefined for lessons added in the app
+const getReplacedDiaryKey = (lessons: ManagedLesson[], index: number): string | undefined =>
+  isManualLesson(lessons[index]) ? lessons[index].replacesDiaryKey : getDiaryKey(lessons, index);
+
+const getDeletedKey = (username: string) => `${DELETED_KEY_PREFIX}${username.toLowerCase()}`;
+
+/** Diary keys (see getDiaryKey) of diary lessons the user deleted, so syncs don't restore them. */
+export const getDeletedLessonKeys = async (username: string): Promise<string[]> => {
+  try {
+    const raw = await AsyncStorage.getItem(getDeletedKey(username));
+    return raw ? (JSON.parse(raw) as string[]) : [];
+  } catch (error) {
+    console.error('Error loading deleted lessons:', error);
+    return [];
+  }
+};
+
+const recordDeletedLesson = async (username: string, diaryKey: string): Promise<void> => {
+  const keys = (await getDeletedLessonKeys(username)).filter(key => key !== diaryKey);
+  await AsyncStorage.setItem(getDeletedKey(username), JSON.stringify([...keys, diaryKey].slice(-MAX_DELETED_LESSONS)));
+};
+
+/**
+ * Adds a lesson (`original` null) or replaces `original` with the draft.
+ * Saved lessons are flagged manual, so diary sync keeps them.
+ */
+export const saveLesson = async (
+  username: string,
+  original: ManagedLesson | null,
+  draft: LessonDraft
+): Promise<LessonEditResult> => {
+  const validationError = validateLessonDraft(draft);
+  if (validationError) return { success: false, message: validationError };
+
+  try {
+    const lessons = (await getLessons(username)) as ManagedLesson[];
+    let updated: ManagedLesson[];
+    let movedDiaryKey: string | undefined;
+    if (original) {
+      const index = findLessonIndex(lessons, original);
+      if (index < 0) {
+        return { success: false, message: 'This lesson changed in the meantime. Please reopen it.' };
+      }
+      const replacedDiaryKey = getReplacedDiaryKey(lessons, index);
+      updated = [...lessons];
+      updated[index] = toManualLesson(draft, original.id, replacedDiaryKey);
+      // Moved to another date or subject: the diary lesson stays gone even if this copy is deleted later
+      if (replacedDiaryKey && !replacedDiaryKey.startsWith(`${subjectKey(updated[index])}|`)) {
+        movedDiaryKey = replacedDiaryKey;
+      }
+    } else {
+      updated = [...lessons, toManualLesson(draft)];
+    }
+    await saveLessons(username, updated);
+    if (movedDiaryKey) await recordDeletedLesson(username, movedDiaryKey);
+    return { success: true, lessons: updated };
+  } catch (error) {
+    console.error('Error saving lesson:', error);
+    return { success: false, message: 'Failed to save the lesson' };
+  }
+};
+
+export const deleteLesson = async (username: string, lesson: ManagedLesson): Promise<LessonEditResult> => {
+  try {
+    const lessons = (await getLessons(username)) as ManagedLesson[];
+    const index = findLessonIndex(lessons, lesson);
+    if (index < 0) {
+      return { success: false, message: 'This lesson was already removed' };
+    }
+    const replacedDiaryKey = getReplacedDiaryKey(lessons, index);
+    const updated = lessons.filter((_, i) => i !== index);
+    await saveLessons(username, updated);
+    if (replacedDiaryKey) {
+      await recordDeletedLesson(username, replacedDiaryKey);
+    }
+    return { success: true, lessons: updated };
+  } catch (error) {
+    console.error('Error deleting lesson:', error);
+    return { success: false, message: 'Failed to delete the lesson' };
+  }
+};
+
+/**
+ * Gives the imported diary lessons their diary keys and drops the ones a manual
+ * lesson in `existing` replaces or that the student deleted (`deletedKeys`, see
+ * getDeletedLessonKeys), so a sync never overwrites what the student entered.
+ * Only that one lesson is dropped, not the other period of a double lesson.
+ */
+export const withoutManualOverrides = (existing: Lesson[], imported: Lesson[], deletedKeys: string[] = []): ManagedLesson[] => {
+  const replaced = (existing as ManagedLesson[]).map(lesson => lesson.replacesDiaryKey).filter(Boolean) as string[];
+  const overridden = new Set([...replaced, ...deletedKeys]);
+  return imported
+    .map((lesson, index): ManagedLesson => ({ ...lesson, diaryKey: diaryKeyAt(imported, index) }))
+    .filter(lesson => !overridden.has(lesson.diaryKey as string));
+};
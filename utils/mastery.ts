@@ -0,0 +1,81 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getToday } from './schoolCalendar';
+
+const RESULTS_KEY_PREFIX = '@revisory_quiz_results_';
+const MAX_STORED_RESULTS = 2000;
+
+// Harder questions say more about mastery than easy ones
+const DIFFICULTY_WEIGHTS: Record<QuizDifficulty, number> = { easy: 1, medium: 1.5, hard: 2 };
+// An answer from two weeks ago counts half as much as one from today
+const RECENCY_HALF_LIFE_DAYS = 14;
+// Pulls subjects with few answers towards 50% so one lucky answer isn't 100%
+const PRIOR_MASTERY = 0.5;
+const PRIOR_WEIGHT = 2;
+
+export type QuizDifficulty = 'easy' | 'medium' | 'hard';
+
+export type QuizResult = {
+  subject: string;
+  difficulty: QuizDifficulty;
+  correct: boolean;
+  answeredAt: string;
+};
+
+export type SubjectMastery = {
+  subject: string;
+  mastery: number;
+  answered: number;
+  lastPracticed: string;
+};
+
+const getResultsKey = (username: string) => `${RESULTS_KEY_PREFIX}${username.toLowerCase()}`;
+
+export const getQuizResults = async (username: string): Promise<QuizResult[]> => {
+  try {
+    const raw = await AsyncStorage.getItem(getResultsKey(username));
+    return raw ? (JSON.parse(raw) as QuizResult[]) : [];
+  } catch (error) {
+    console.error('Error loading quiz results:', error);
+    return [];
+  }
+};
+
+export const recordQuizResult = async (
+  username: string,
+  result: Omit<QuizResult, 'answeredAt'>
+): Promise<void> => {
+  const results = await getQuizResults(username);
+  results.push({ ...result, answeredAt: getToday().toISOString() });
+  await AsyncStorage.setItem(getResultsKey(username), JSON.stringify(results.slice(-MAX_STORED_RESULTS)));
+};
+
+/**
+ * Mastery per subject (0–1): accuracy weighted by question difficulty and
+ * answer recency, smoothed towards 50% while there are few answers.
+ * Sorted from weakest to strongest.
+ */
+export const computeMastery = (results: QuizResult[], now: Date = getToday()): SubjectMastery[] => {
+  const bySubject = new Map<string, { weighted: number; total: number; answered: number; lastPracticed: string }>();
+  for (const result of results) {
+    const ageDays = Math.max(0, (now.valueOf() - new Date(result.answeredAt).valueOf()) / 86400000);
+    const weight = (DIFFICULTY_WEIGHTS[result.difficulty] || 1) * Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+    const entry = bySubject.get(result.subject) || { weighted: 0, total: 0, answered: 0, lastPracticed: result.answeredAt };
+    entry.weighted += result.correct ? weight : 0;
+    entry.total += weight;
+    entry.answered++;
+    if (result.answeredAt > entry.lastPracticed) entry.lastPracticed = result.answeredAt;
+    bySubject.set(result.subject, entry);
+  }
+
+  return Array.from(bySubject.entries())
+    .map(([subject, entry]) => ({
+      subject,
+      mastery: (entry.weighted + PRIOR_MASTERY * PRIOR_WEIGHT) / (entry.total + PRIOR_WEIGHT),
+      answered: entry.answered,
+      lastPracticed: entry.lastPracticed,
+    }))
+    .sort((a, b) => a.mastery - b.mastery || a.subject.localeCompare(b.subject));
+};
+
+export const getSubjectMastery = async (username: string): Promise<SubjectMastery[]> =>
+  computeMastery(await getQuizResults(username));
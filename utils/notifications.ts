@@ -0,0 +1,249 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import { getLessons } from './database';
+import { describeSchoolDay, getNextSchoolDay, getSchoolHolidays, getToday, isSchoolDay, toIsoDate } from './schoolCalendar';
+import { getAllowedSubjects, getFilterRules } from './subjectFilters';
+
+const SETTINGS_KEY_PREFIX = '@revisory_notification_settings_';
+// Every reminder this module schedules uses this identifier prefix, so it can cancel just its own
+const REMINDER_ID_PREFIX = 'revisory-reminder-';
+// Days scheduled ahead; the window moves forward every time the app reschedules
+const SCHEDULE_DAYS = 7;
+
+export type ReminderTimingMode = 'fixed' | 'afterLessons';
+
+export type NotificationSettings = {
+  enabled: boolean;
+  mode: ReminderTimingMode;
+  // Fixed time, and the fallback for days without known lessons
+  hour: number;
+  minute: number;
+  // 'afterLessons': minutes after the last lesson of the day ends
+  afterLessonsMinutes: number;
+  quietHoursEnabled: boolean;
+  // Minutes since midnight; the range may wrap past midnight (21:00–07:00)
+  quietStart: number;
+  quietEnd: number;
+};
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  enabled: true,
+  mode: 'fixed',
+  hour: 18,
+  minute: 0,
+  afterLessonsMinutes: 60,
+  quietHoursEnabled: true,
+  quietStart: 21 * 60,
+  quietEnd: 7 * 60,
+};
+
+// End of each lesson period (minutes since midnight) in a typical Latvian school bell schedule
+export const LESSON_END_TIMES = [
+  9 * 60 + 10,
+  10 * 60,
+  10 * 60 + 50,
+  12 * 60,
+  12 * 60 + 50,
+  13 * 60 + 40,
+  14 * 60 + 30,
+  15 * 60 + 20,
+  16 * 60 + 10,
+  17 * 60,
+];
+
+// A reminder moved out of quiet hours goes off this long before they start
+const QUIET_HOURS_MARGIN_MINUTES = 15;
+
+export type ScheduledReminder = {
+  id: string;
+  fireAt: Date;
+  // Why it fires at this time, shown in the settings preview
+  timing: string;
+  schoolDate: string;
+  subjects: string[];
+  title: string;
+  body: string;
+};
+
+// Attached to each reminder so tapping it opens the reminder for those subjects
+export type ReminderNotificationData = {
+  kind: 'reminder';
+  username: string;
+  schoolDate: string;
+  subjects: string[];
+};
+
+const getSettingsKey = (username: string) => `${SETTINGS_KEY_PREFIX}${username.toLowerCase()}`;
+
+export const formatTime = (hour: number, minute: number): string =>
+  `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+
+export const formatMinutes = (minutes: number): string => formatTime(Math.floor(minutes / 60), minutes % 60);
+
+export const isInQuietHours = (minutes: number, settings: NotificationSettings): boolean => {
+  if (!settings.quietHoursEnabled || settings.quietStart === settings.quietEnd) return false;
+  return settings.quietStart < settings.quietEnd
+    ? minutes >= settings.quietStart && minutes < settings.quietEnd
+    : minutes >= settings.quietStart || minutes < settings.quietEnd;
+};
+
+/** Minutes since midnight for one school day's reminder, and why. */
+export const getReminderMinutes = (
+  lessonCount: number,
+  settings: NotificationSettings
+): { minutes: number; timing: string } => {
+  const fixedMinutes = settings.hour * 60 + settings.minute;
+  let minutes = fixedMinutes;
+  let timing = `Fixed time ${formatMinutes(fixedMinutes)}`;
+  if (settings.mode === 'afterLessons') {
+    if (lessonCount > 0) {
+      const lastLessonEnd = LESSON_END_TIMES[Math.min(lessonCount, LESSON_END_TIMES.length) - 1];
+      minutes = Math.min(lastLessonEnd + settings.afterLessonsMinutes, 24 * 60 - 1);
+      timing = `${lessonCount} ${lessonCount === 1 ? 'lesson' : 'lessons'}, last ends ${formatMinutes(lastLessonEnd)}`;
+    } else {
+      timing = `No lessons known, using ${formatMinutes(fixedMinutes)}`;
+    }
+  }
+
+  if (isInQuietHours(minutes, settings)) {
+    minutes = Math.max(0, settings.quietStart - QUIET_HOURS_MARGIN_MINUTES);
+    timing += ', moved before quiet hours';
+  }
+  return { minutes, timing };
+};
+
+export const getNotificationSettings = async (username: string): Promise<NotificationSettings> => {
+  try {
+    const raw = await AsyncStorage.getItem(getSettingsKey(username));
+    return raw ? { ...DEFAULT_NOTIFICATION_SETTINGS, ...JSON.parse(raw) } : DEFAULT_NOTIFICATION_SETTINGS;
+  } catch (error) {
+    console.error('Error loading notification settings:', error);
+    return DEFAULT_NOTIFICATION_SETTINGS;
+  }
+};
+
+export const saveNotificationSettings = async (username: string, settings: NotificationSettings): Promise<void> => {
+  await AsyncStorage.setItem(getSettingsKey(username), JSON.stringify(settings));
+  await scheduleReminderNotifications(username);
+};
+
+export const buildReminderBody = (subjects: string[], dayLabel: string): string =>
+  subjects.length > 0
+    ? `For ${dayLabel}: ${subjects.join(', ')}. Take a few minutes to revise!`
+    : 'Hey, you should remind yourself';
+
+/**
+ * One reminder on each school day in the next SCHEDULE_DAYS days (weekends and
+ * holidays are skipped), listing the subjects of the following school day after
+ * the user's subject rules. Friday's reminder is about Monday.
+ */
+export const planReminders = async (username: string, now: Date = getToday()): Promise<ScheduledReminder[]> => {
+  const settings = await getNotificationSettings(username);
+  if (!settings.enabled) return [];
+
+  const [lessons, rules, holidays] = await Promise.all([
+    getLessons(username),
+    getFilterRules(username),
+    getSchoolHolidays(username),
+  ]);
+
+  const reminders: ScheduledReminder[] = [];
+  for (let offset = 0; offset < SCHEDULE_DAYS; offset++) {
+    const day = new Date(now.getFullYear(), now.getMonth(), now.getDate() + offset);
+    if (!isSchoolDay(day, holidays)) continue;
+
+    const schoolDay = getNextSchoolDay(day, holidays);
+    const schoolDate = toIsoDate(schoolDay);
+    const subjects = getAllowedSubjects(lessons.filter(lesson => lesson.date === schoolDate), rules);
+    if (subjects.length === 0) continue;
+
+    // Every stored lesson of the day counts as one period, filtered or not
+    const dayIso = toIsoDate(day);
+    const { minutes, timing } = getReminderMinutes(lessons.filter(lesson => lesson.date === dayIso).length, settings);
+    const fireAt = new Date(day.getFullYear(), day.getMonth(), day.getDate(), Math.floor(minutes / 60), minutes % 60);
+    if (fireAt <= now) continue;
+
+    reminders.push({
+      id: `${REMINDER_ID_PREFIX}${schoolDate}`,
+      fireAt,
+      timing,
+      schoolDate,
+      subjects,
+      title: 'Revisory',
+      body: buildReminderBody(subjects, describeSchoolDay(schoolDay, day)),
+    });
+  }
+  return reminders;
+};
+
+/** The reminder payload of a tapped notification, or null for any other notification. */
+export const getReminderNotificationData = (
+  response: Notifications.NotificationResponse
+): ReminderNotificationData | null => {
+  const data = response.notification.request.content.data as Partial<ReminderNotificationData> | undefined;
+  if (!data || data.kind !== 'reminder' || typeof data.username !== 'string' || !Array.isArray(data.subjects)) {
+    return null;
+  }
+  return {
+    kind: 'reminder',
+    username: data.username,
+    schoolDate: typeof data.schoolDate === 'string' ? data.schoolDate : '',
+    subjects: data.subjects.filter(subject => typeof subject === 'string'),
+  };
+};
+
+export const cancelReminderNotifications = async (): Promise<void> => {
+  try {
+    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+    await Promise.all(
+      scheduled
+        .filter(request => request.identifier.startsWith(REMINDER_ID_PREFIX))
+        .map(request => Notifications.cancelScheduledNotificationAsync(request.identifier))
+    );
+  } catch (error) {
+    console.error('Error cancelling reminder notifications:', error);
+  }
+};
+
+/**
+ * Replaces the scheduled reminders with a fresh plan. Call after launch and
+ * whenever lessons or settings change. Planned reminders fire once each; behind
+ * them a plain daily trigger at the chosen time, without subjects, keeps the user
+ * reminded when the app stays closed past the SCHEDULE_DAYS window.
+ */
+export const scheduleReminderNotifications = async (username: string): Promise<ScheduledReminder[]> => {
+  await cancelReminderNotifications();
+  try {
+    const settings = await getNotificationSettings(username);
+    if (!settings.enabled) return [];
+
+    const { status } = await Notifications.getPermissionsAsync();
+    if (status !== 'granted') return [];
+
+    // No data payload: tapping it just opens the app, so it can't point at stale subjects
+    const { minutes } = getReminderMinutes(0, settings);
+    await Notifications.scheduleNotificationAsync({
+      identifier: `${REMINDER_ID_PREFIX}daily`,
+      content: { title: 'Revisory', body: buildReminderBody([], ''), sound: true },
+      trigger: { type: Notifications.SchedulableTriggerInputTypes.DAILY, hour: Math.floor(minutes / 60), minute: minutes % 60 },
+    });
+
+    const reminders = await planReminders(username);
+    for (const reminder of reminders) {
+      await Notifications.scheduleNotificationAsync({
+        identifier: reminder.id,
+        content: {
+          title: reminder.title,
+          body: reminder.body,
+          sound: true,
+          data: { kind: 'reminder', username, schoolDate: reminder.schoolDate, subjects: reminder.subjects },
+        },
+        trigger: { type: Notifications.SchedulableTriggerInputTypes.DATE, date: reminder.fireAt },
+      });
+    }
+    return reminders;
+  } catch (error) {
+    console.error('Error scheduling reminder notifications:', error);
+    return [];
+  }
+};
@@ -0,0 +1,56 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ReminderLanguage, ReminderLesson, ReminderResponse } from './reminderPrompt';
+
+const CACHE_KEY_PREFIX = '@revisory_reminder_cache_';
+
+export type CachedReminder = {
+  lessonsHash: string;
+  reminder: ReminderResponse;
+  generatedAt: string;
+};
+
+// One entry per subject and language (see getReminderCacheKey); a new lesson hash replaces the old entry
+export type ReminderCache = Record<string, CachedReminder>;
+
+const getCacheKey = (username: string) => `${CACHE_KEY_PREFIX}${username.toLowerCase()}`;
+
+export const getReminderCacheKey = (subject: string, language: ReminderLanguage): string => `${language}:${subject}`;
+
+// FNV-1a; only needs to notice changes, not resist collisions on purpose
+const hashString = (value: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/** Changes whenever a lesson of the subject is added, removed or edited. */
+export const hashSubjectLessons = (subject: string, lessons: ReminderLesson[]): string => {
+  const subjectLessons = lessons
+    .filter(lesson => lesson.subject === subject)
+    .map(lesson => [lesson.date, lesson.topic || '', lesson.homework || ''].join('\u0000'))
+    .sort();
+  return hashString(`${subject}\u0001${subjectLessons.join('\u0001')}`);
+};
+
+export const getReminderCache = async (username: string): Promise<ReminderCache> => {
+  try {
+    const raw = await AsyncStorage.getItem(getCacheKey(username));
+    return raw ? (JSON.parse(raw) as ReminderCache) : {};
+  } catch (error) {
+    console.error('Error loading reminder cache:', error);
+    return {};
+  }
+};
+
+export const saveCachedReminders = async (username: string, entries: ReminderCache): Promise<void> => {
+  if (Object.keys(entries).length === 0) return;
+  const cache = await getReminderCache(username);
+  await AsyncStorage.setItem(getCacheKey(username), JSON.stringify({ ...cache, ...entries }));
+};
+
+export const clearReminderCache = async (username: string): Promise<void> => {
+  await AsyncStorage.removeItem(getCacheKey(username));
+};
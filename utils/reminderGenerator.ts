@@ -0,0 +1,206 @@
+import { AiProvider, DEFAULT_AI_SETTINGS, MAX_CONCURRENCY } from './aiProviders';
+import { ReminderCache, getReminderCache, getReminderCacheKey, hashSubjectLessons, saveCachedReminders } from './reminderCache';
+import { FreeTextGrade, FreeTextTask, ReminderLanguage, ReminderLesson, ReminderResponse } from './reminderPrompt';
+import { checkFreeTextGrade, checkReminder, generateCheckedGrade, generateCheckedReminder, isUsableReminder } from './reminderSchema';
+
+export type { FreeTextGrade, ReminderLanguage, ReminderLesson, ReminderResponse, ReminderTask, TaskDifficulty } from './reminderPrompt';
+
+export const getFallbackReminder = (subject: string, lessons: ReminderLesson[]): ReminderResponse => {
+  const topics = lessons.filter(lesson => lesson.subject === subject && lesson.topic).map(lesson => lesson.topic);
+  return {
+    theory: {
+      content: `Take a few minutes to look over your ${subject} notes and homework before the next lesson. ` +
+        'Try to explain each topic in your own words and note anything that is still unclear.',
+      keyPoints: topics.slice(0, 6),
+    },
+    tasks: [],
+  };
+};
+
+// Backoff on 429/quota errors: 2s, 4s, 8s, 16s (plus jitter), and never waits longer than a minute
+const RATE_LIMIT_RETRIES = 4;
+const BACKOFF_BASE_MS = 2000;
+const MAX_BACKOFF_MS = 60 * 1000;
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// A field of whatever was thrown, when it is an object at all
+const readErrorField = (error: unknown, field: string): unknown =>
+  error && typeof error === 'object' ? (error as Record<string, unknown>)[field] : undefined;
+
+// Gemini and OpenAI SDK errors carry the HTTP status; the server provider adds retryAfterMs
+export const isRateLimitError = (error: unknown): boolean => {
+  const message = readErrorField(error, 'message');
+  return readErrorField(error, 'status') === 429 ||
+    /\b429\b|quota|rate.?limit|resource.?exhausted|too many requests/i.test(typeof message === 'string' ? message : '');
+};
+
+const getBackoffDelay = (error: unknown, retry: number): number | null => {
+  if (!isRateLimitError(error) || retry >= RATE_LIMIT_RETRIES) return null;
+  const rawRetryAfterMs = readErrorField(error, 'retryAfterMs');
+  const retryAfterMs = typeof rawRetryAfterMs === 'number' ? rawRetryAfterMs : 0;
+  if (retryAfterMs > MAX_BACKOFF_MS) return null;
+  return Math.min(MAX_BACKOFF_MS, Math.max(retryAfterMs, BACKOFF_BASE_MS * 2 ** retry) + Math.random() * 500);
+};
+
+export const generateReminder = async (
+  provider: AiProvider,
+  subject: string,
+  lessons: ReminderLesson[],
+  language: ReminderLanguage = DEFAULT_AI_SETTINGS.language
+): Promise<ReminderResponse> => {
+  if (provider.generateReminder) {
+    // The server checks its replies too, but a broken question must never reach the screen
+    const check = checkReminder(await provider.generateReminder(subject, lessons, language));
+    check.rejections.forEach(rejection => console.warn(`[reminder] ${subject}, from server: rejected ${rejection}`));
+    if (!isUsableReminder(check.reminder)) {
+      throw new Error(`The server returned an unusable reminder for ${subject}`);
+    }
+    return check.reminder;
+  }
+  return generateCheckedReminder(provider.generateJson, subject, lessons, language);
+};
+
+// Free-text tasks from before the server signed them, or from another provider, can't be graded by the server
+const hasUnsignedFreeText = (reminder: ReminderResponse): boolean =>
+  reminder.tasks.some(task => task.type === 'freeText' && !task.signature);
+
+/** Grades a free-text answer against the task's rubric with the chosen provider. */
+export const gradeFreeTextAnswer = async (
+  provider: AiProvider,
+  task: FreeTextTask,
+  answer: string,
+  language: ReminderLanguage = DEFAULT_AI_SETTINGS.language
+): Promise<FreeTextGrade> => {
+  if (provider.gradeAnswer) {
+    // The server grades only against rubrics it signed itself (see server/ai/taskSignatures.ts)
+    if (!task.signature) {
+      throw new Error('the Revisory server only grades questions it wrote. Generate this reminder again');
+    }
+    // Re-checked against the rubric the app has, like server reminders
+    const { grade } = checkFreeTextGrade(await provider.gradeAnswer(task, answer, language), task);
+    if (!grade) throw new Error('The server returned an unusable grade');
+    return grade;
+  }
+  return generateCheckedGrade(provider.generateJson, task, answer, language);
+};
+
+// Where a subject's reminder came from: the AI, the cache, the cache after the AI failed, or the generic fallback
+export type ReminderSource = 'generated' | 'cached' | 'stale' | 'fallback';
+
+export type ReminderGenerationOptions = {
+  // Caches reminders for this user and reuses them while the subject's lessons are unchanged
+  username?: string;
+  // Ask the AI again even when the cache has a reminder for the current lessons
+  regenerate?: boolean;
+  // Language of the reminders (see AiSettings.language); cached separately per language
+  language?: ReminderLanguage;
+  // Subjects generated at the same time (see AiSettings.concurrency)
+  concurrency?: number;
+  // Called as each subject's reminder is ready, in completion order; fallbacks only arrive at the end
+  onReminder?: (subject: string, reminder: ReminderResponse, source: ReminderSource, generatedAt: string) => void;
+  // Stops starting new subjects, e.g. after the screen closed
+  isCancelled?: () => boolean;
+};
+
+export type GeneratedReminders = {
+  reminders: Map<string, ReminderResponse>;
+  sources: Map<string, ReminderSource>;
+  generatedAt: Map<string, string>;
+};
+
+const generateWithBackoff = async (
+  provider: AiProvider,
+  subject: string,
+  lessons: ReminderLesson[],
+  language: ReminderLanguage,
+  isCancelled: () => boolean
+): Promise<ReminderResponse> => {
+  for (let retry = 0; ; retry++) {
+    try {
+      return await generateReminder(provider, subject, lessons, language);
+    } catch (error) {
+      const delay = getBackoffDelay(error, retry);
+      if (delay === null || isCancelled()) throw error;
+      console.warn(`[reminder] ${subject}: rate limited, retrying in ${Math.round(delay / 1000)}s`);
+      await sleep(delay);
+    }
+  }
+};
+
+/**
+ * Generates reminders for up to `concurrency` subjects at a time, in the given
+ * order, backing off on rate limits. Cached reminders for unchanged lessons are
+ * reused. A subject that fails falls back to its last cached reminder (e.g. when
+ * offline) or a generic one; if no subject got a real reminder the first error
+ * is thrown so the screen can show it.
+ */
+export const generateRemindersForSubjects = async (
+  provider: AiProvider,
+  subjects: string[],
+  lessons: ReminderLesson[],
+  options: ReminderGenerationOptions = {}
+): Promise<GeneratedReminders> => {
+  const result: GeneratedReminders = { reminders: new Map(), sources: new Map(), generatedAt: new Map() };
+  const cache = options.username ? await getReminderCache(options.username) : {};
+  const fresh: ReminderCache = {};
+  const fallbacks: string[] = [];
+  const isCancelled = options.isCancelled || (() => false);
+  const language = options.language || DEFAULT_AI_SETTINGS.language;
+  let firstError: unknown = null;
+
+  const use = (subject: string, reminder: ReminderResponse, source: ReminderSource, generatedAt: string) => {
+    result.reminders.set(subject, reminder);
+    result.sources.set(subject, source);
+    result.generatedAt.set(subject, generatedAt);
+    options.onReminder?.(subject, reminder, source, generatedAt);
+  };
+
+  const loadSubject = async (subject: string) => {
+    const lessonsHash = hashSubjectLessons(subject, lessons);
+    // Re-checked so reminders cached before validation existed can't slip through
+    const cacheKey = getReminderCacheKey(subject, language);
+    const cached = cache[cacheKey] ? { ...cache[cacheKey], reminder: checkReminder(cache[cacheKey].reminder).reminder } : null;
+    const usableCache = cached && isUsableReminder(cached.reminder) ? cached : null;
+    const gradable = !!usableCache && !(provider.gradeAnswer && hasUnsignedFreeText(usableCache.reminder));
+    if (usableCache && gradable && usableCache.lessonsHash === lessonsHash && !options.regenerate) {
+      use(subject, usableCache.reminder, 'cached', usableCache.generatedAt);
+      return;
+    }
+
+    try {
+      const reminder = await generateWithBackoff(provider, subject, lessons, language, isCancelled);
+      const generatedAt = new Date().toISOString();
+      fresh[cacheKey] = { lessonsHash, reminder, generatedAt };
+      use(subject, reminder, 'generated', generatedAt);
+    } catch (error) {
+      console.error(`Error generating reminder for ${subject}:`, error);
+      firstError = firstError || error;
+      if (usableCache) {
+        use(subject, usableCache.reminder, 'stale', usableCache.generatedAt);
+      } else {
+        fallbacks.push(subject);
+      }
+    }
+  };
+
+  // Workers take subjects from the front, so the first subjects are ready first
+  const queue = [...subjects];
+  const concurrency = Math.max(1, Math.min(options.concurrency || DEFAULT_AI_SETTINGS.concurrency, MAX_CONCURRENCY));
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, queue.length) }, async () => {
+      while (queue.length > 0 && !isCancelled()) {
+        await loadSubject(queue.shift() as string);
+      }
+    })
+  );
+
+  if (options.username) {
+    await saveCachedReminders(options.username, fresh);
+  }
+  if (firstError && fallbacks.length === subjects.length) {
+    throw firstError;
+  }
+  fallbacks.forEach(subject => use(subject, getFallbackReminder(subject, lessons), 'fallback', ''));
+  return result;
+};
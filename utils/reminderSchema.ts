@@ -0,0 +1,460 @@
+// Runtime checks for model replies; shared by the app and the server's AI proxy like reminderPrompt.ts
+import {
+  FreeTextGrade,
+  FreeTextTask,
+  ReminderLanguage,
+  RubricCriterion,
+  ReminderLesson,
+  ReminderResponse,
+  ReminderTask,
+  TaskDifficulty,
+  TaskType,
+  buildGradingPrompt,
+  buildReminderPrompt,
+} from './reminderPrompt';
+import { parseNumber } from './taskGrading';
+
+// Total model calls per reminder: the first prompt plus re-prompts
+export const REMINDER_ATTEMPTS = 3;
+// The prompt asks for three tasks; fewer valid ones triggers a re-prompt
+export const EXPECTED_TASKS = 3;
+// Model calls per free-text grade; the student is waiting, so fewer than for reminders
+export const GRADE_ATTEMPTS = 2;
+
+const DIFFICULTIES: TaskDifficulty[] = ['easy', 'medium', 'hard'];
+// Spellings models use for the task types, lowercased with everything but letters removed
+const TASK_TYPE_ALIASES: Record<string, TaskType> = {
+  multiplechoice: 'multipleChoice',
+  truefalse: 'trueFalse',
+  fillblank: 'fillBlank',
+  fillintheblank: 'fillBlank',
+  ordering: 'ordering',
+  order: 'ordering',
+  numeric: 'numeric',
+  number: 'numeric',
+  freetext: 'freeText',
+  open: 'freeText',
+  essay: 'freeText',
+};
+const MIN_OPTIONS = 2;
+const MAX_OPTIONS = 6;
+const MIN_ITEMS = 3;
+const MAX_ITEMS = 6;
+const MIN_CRITERIA = 1;
+const MAX_CRITERIA = 5;
+const MAX_CRITERION_POINTS = 5;
+// Used when a numeric task comes without a tolerance: 1% of the answer
+const DEFAULT_RELATIVE_TOLERANCE = 0.01;
+const BLANK = /_{2,}/;
+// "A. Paris", "b) Paris", "1. Paris"
+const OPTION_LABEL = /^(?:[A-Fa-f]|[1-6])[.)]\s+/;
+
+export type ReminderCheck = {
+  // Only the parts that passed; tasks that failed are left out
+  reminder: ReminderResponse;
+  // Fixes applied to salvage the reply, e.g. a letter answer turned into an index
+  repairs: string[];
+  // Why parts of the reply were dropped
+  rejections: string[];
+};
+
+// A JSON object from a model reply or a request, before its fields are checked
+type RawObject = Record<string, unknown>;
+
+const readText = (value: unknown): string =>
+  typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '';
+
+const asObject = (value: unknown): RawObject | null =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as RawObject) : null;
+
+const readList = (value: unknown): unknown[] | null => (Array.isArray(value) ? value : null);
+
+/** Parses a model reply, tolerating markdown code fences or prose around the JSON. */
+export const parseReminderJson = (reply: string): unknown => {
+  const cleaned = reply
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '');
+  try {
+    return JSON.parse(cleaned);
+  } catch (error) {
+    const start = cleaned.indexOf('{');
+    const end = cleaned.lastIndexOf('}');
+    if (start < 0 || end <= start) throw error;
+    return JSON.parse(cleaned.slice(start, end + 1));
+  }
+};
+
+// Only unambiguous readings; anything else is rejected rather than guessed
+const readAnswerIndex = (value: unknown, options: string[], label: string, repairs: string[]): number | null => {
+  if (typeof value === 'number') {
+    return Number.isInteger(value) && value >= 0 && value < options.length ? value : null;
+  }
+  const answer = readText(value);
+  if (/^\d+$/.test(answer) && Number(answer) < options.length) {
+    repairs.push(`${label}: correctAnswer "${answer}" read as index ${Number(answer)}`);
+    return Number(answer);
+  }
+  if (/^[A-Fa-f]$/.test(answer) && answer.toUpperCase().charCodeAt(0) - 65 < options.length) {
+    const index = answer.toUpperCase().charCodeAt(0) - 65;
+    repairs.push(`${label}: correctAnswer "${answer}" read as index ${index}`);
+    return index;
+  }
+  const matching = options.findIndex(option => option.toLowerCase() === answer.toLowerCase());
+  if (answer && matching >= 0) {
+    repairs.push(`${label}: correctAnswer given as option text, read as index ${matching}`);
+    return matching;
+  }
+  return null;
+};
+
+// Task type specific fields, or why they can't be used
+type TaskDetails<T = ReminderTask> = T extends ReminderTask ? Omit<T, 'difficulty' | 'question' | 'explanation' | 'hint'> : never;
+
+const hasDuplicates = (values: string[]): boolean =>
+  new Set(values.map(value => value.toLowerCase())).size !== values.length;
+
+const checkMultipleChoice = (raw: RawObject, label: string, repairs: string[]): TaskDetails | string => {
+  let rawOptions = readList(raw.options);
+  const optionsObject = asObject(raw.options);
+  if (optionsObject) {
+    repairs.push(`${label}: options object turned into a list`);
+    rawOptions = Object.values(optionsObject);
+  }
+  if (!rawOptions) return `${label}: options are missing`;
+  let options = rawOptions.map(readText);
+  if (options.length > 0 && options.every(option => OPTION_LABEL.test(option))) {
+    repairs.push(`${label}: removed "A." style labels from options`);
+    options = options.map(option => option.replace(OPTION_LABEL, ''));
+  }
+  if (options.length < MIN_OPTIONS || options.length > MAX_OPTIONS) {
+    return `${label}: has ${options.length} options, needs ${MIN_OPTIONS}-${MAX_OPTIONS}`;
+  }
+  if (options.some(option => !option)) return `${label}: has an empty option`;
+  if (hasDuplicates(options)) return `${label}: has duplicate options`;
+
+  const correctAnswer = readAnswerIndex(raw.correctAnswer, options, label, repairs);
+  if (correctAnswer === null) {
+    return `${label}: correctAnswer ${JSON.stringify(raw.correctAnswer)} is not one of its ${options.length} options`;
+  }
+  return { type: 'multipleChoice', options, correctAnswer };
+};
+
+const checkTrueFalse = (raw: RawObject, label: string, repairs: string[]): TaskDetails | string => {
+  if (typeof raw.correctAnswer === 'boolean') return { type: 'trueFalse', correctAnswer: raw.correctAnswer };
+  const answer = readText(raw.correctAnswer).toLowerCase();
+  if (answer === 'true' || answer === 'false') {
+    repairs.push(`${label}: correctAnswer "${answer}" read as ${answer}`);
+    return { type: 'trueFalse', correctAnswer: answer === 'true' };
+  }
+  return `${label}: correctAnswer ${JSON.stringify(raw.correctAnswer)} is not true or false`;
+};
+
+const checkFillBlank = (raw: RawObject, question: string, label: string, repairs: string[]): TaskDetails | string => {
+  if (!BLANK.test(question)) return `${label}: question has no ___ blank`;
+  let rawAnswers = readList(raw.acceptedAnswers);
+  if (!rawAnswers && readText(raw.answer ?? raw.correctAnswer)) {
+    repairs.push(`${label}: single answer turned into acceptedAnswers`);
+    rawAnswers = [raw.answer ?? raw.correctAnswer];
+  }
+  if (!rawAnswers) return `${label}: acceptedAnswers are missing`;
+  const acceptedAnswers = Array.from(new Set(rawAnswers.map(readText).filter(Boolean)));
+  if (acceptedAnswers.length === 0) return `${label}: acceptedAnswers are empty`;
+  return { type: 'fillBlank', acceptedAnswers };
+};
+
+const checkOrdering = (raw: RawObject, label: string): TaskDetails | string => {
+  const rawItems = readList(raw.items);
+  if (!rawItems) return `${label}: items are missing`;
+  const items = rawItems.map(readText);
+  if (items.length < MIN_ITEMS || items.length > MAX_ITEMS) {
+    return `${label}: has ${items.length} items, needs ${MIN_ITEMS}-${MAX_ITEMS}`;
+  }
+  if (items.some(item => !item)) return `${label}: has an empty item`;
+  if (hasDuplicates(items)) return `${label}: has duplicate items`;
+  return { type: 'ordering', items };
+};
+
+// Numbers given as text are read like the student's typed answers ("2,5", "3/4")
+const readNumber = (value: unknown, field: string, label: string, repairs: string[]): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  const parsed = typeof value === 'string' ? parseNumber(value) : null;
+  if (parsed !== null) repairs.push(`${label}: ${field} "${value}" read as ${parsed}`);
+  return parsed;
+};
+
+const checkNumeric = (raw: RawObject, label: string, repairs: string[]): TaskDetails | string => {
+  // Models sometimes name the answer correctAnswer like the other task types
+  const field = raw.answer !== undefined && raw.answer !== null ? 'answer' : 'correctAnswer';
+  if (raw[field] === undefined || raw[field] === null) return `${label}: answer is missing`;
+  const answer = readNumber(raw[field], field, label, repairs);
+  if (answer === null) return `${label}: ${field} ${JSON.stringify(raw[field])} is not a number`;
+
+  let tolerance = raw.tolerance === undefined ? null : readNumber(raw.tolerance, 'tolerance', label, repairs);
+  if (tolerance === null) {
+    tolerance = Math.abs(answer) * DEFAULT_RELATIVE_TOLERANCE;
+    repairs.push(`${label}: tolerance ${raw.tolerance === undefined ? 'missing' : JSON.stringify(raw.tolerance)}, set to ${tolerance}`);
+  } else if (tolerance < 0) {
+    repairs.push(`${label}: negative tolerance ${tolerance} made positive`);
+    tolerance = -tolerance;
+  }
+
+  const unit = readText(raw.unit);
+  return { type: 'numeric', answer, tolerance, ...(unit ? { unit } : {}) };
+};
+
+const checkRubricCriterion = (raw: unknown, label: string, repairs: string[]): RubricCriterion | string => {
+  if (typeof raw === 'string') {
+    repairs.push(`${label}: criterion "${raw}" given as text, worth 1 point`);
+    return raw.trim() ? { criterion: raw.trim(), points: 1 } : `${label}: has an empty criterion`;
+  }
+  const value = asObject(raw) || {};
+  const criterion = readText(value.criterion);
+  if (!criterion) return `${label}: has an empty criterion`;
+  const points = readNumber(value.points, 'criterion points', label, repairs);
+  if (points === null || points <= 0 || points > MAX_CRITERION_POINTS) {
+    return `${label}: criterion points ${JSON.stringify(value.points)} must be 1-${MAX_CRITERION_POINTS}`;
+  }
+  if (!Number.isInteger(points)) repairs.push(`${label}: criterion points ${points} rounded`);
+  return { criterion, points: Math.max(1, Math.round(points)) };
+};
+
+const checkFreeText = (raw: RawObject, label: string, repairs: string[]): TaskDetails | string => {
+  const rawRubric = readList(raw.rubric);
+  if (!rawRubric) return `${label}: rubric is missing`;
+  if (rawRubric.length < MIN_CRITERIA || rawRubric.length > MAX_CRITERIA) {
+    return `${label}: rubric has ${rawRubric.length} criteria, needs ${MIN_CRITERIA}-${MAX_CRITERIA}`;
+  }
+  const rubric: RubricCriterion[] = [];
+  for (const rawCriterion of rawRubric) {
+    const criterion = checkRubricCriterion(rawCriterion, label, repairs);
+    if (typeof criterion === 'string') return criterion;
+    rubric.push(criterion);
+  }
+  const sampleAnswer = readText(raw.sampleAnswer);
+  if (!sampleAnswer) return `${label}: sampleAnswer is missing`;
+  const signature = readText(raw.signature);
+  return { type: 'freeText', rubric, sampleAnswer, ...(signature ? { signature } : {}) };
+};
+
+const checkTask = (value: unknown, index: number, repairs: string[]): ReminderTask | string => {
+  const label = `task ${index + 1}`;
+  const raw = asObject(value);
+  if (!raw) return `${label}: not an object`;
+
+  const question = readText(raw.question);
+  if (!question) return `${label}: question is missing`;
+
+  let difficulty = readText(raw.difficulty).toLowerCase() as TaskDifficulty;
+  if (!DIFFICULTIES.includes(difficulty)) {
+    const assumed = DIFFICULTIES[Math.min(index, DIFFICULTIES.length - 1)];
+    repairs.push(`${label}: difficulty "${readText(raw.difficulty)}" set to ${assumed}`);
+    difficulty = assumed;
+  }
+
+  // Reminders cached before task types existed are all multiple choice
+  const rawType = readText(raw.type);
+  let type = TASK_TYPE_ALIASES[rawType.toLowerCase().replace(/[^a-z]/g, '')];
+  if (!rawType && raw.options !== undefined) {
+    repairs.push(`${label}: missing type read as multipleChoice`);
+    type = 'multipleChoice';
+  }
+  if (!type) return `${label}: unknown type ${JSON.stringify(raw.type)}`;
+  if (type !== rawType && rawType) repairs.push(`${label}: type "${rawType}" read as ${type}`);
+
+  const details =
+    type === 'multipleChoice' ? checkMultipleChoice(raw, label, repairs)
+    : type === 'trueFalse' ? checkTrueFalse(raw, label, repairs)
+    : type === 'fillBlank' ? checkFillBlank(raw, question, label, repairs)
+    : type === 'ordering' ? checkOrdering(raw, label)
+    : type === 'numeric' ? checkNumeric(raw, label, repairs)
+    : checkFreeText(raw, label, repairs);
+  if (typeof details === 'string') return details;
+
+  const explanation = readText(raw.explanation);
+  if (!explanation) return `${label}: explanation is missing`;
+
+  const hint = readText(raw.hint);
+  return { ...details, difficulty, question, explanation, ...(hint ? { hint } : {}) } as ReminderTask;
+};
+
+/** Validates a free-text task sent back by the app for grading; null when it isn't one. */
+export const checkFreeTextTask = (raw: unknown): FreeTextTask | null => {
+  const task = checkTask(raw, 0, []);
+  return typeof task !== 'string' && task.type === 'freeText' ? task : null;
+};
+
+/** Validates and repairs a parsed reply. Broken tasks are dropped, never passed on. */
+export const checkReminder = (raw: unknown): ReminderCheck => {
+  const repairs: string[] = [];
+  const rejections: string[] = [];
+  const value = asObject(raw) || {};
+  const theory = asObject(value.theory) || {};
+
+  const content = readText(theory.content);
+  if (!content) rejections.push('theory: content is missing');
+  const keyPoints = (readList(theory.keyPoints) || []).map(readText).filter(Boolean);
+
+  const tasks: ReminderTask[] = [];
+  const rawTasks = readList(value.tasks);
+  if (!rawTasks) {
+    rejections.push('tasks: not a list');
+  } else {
+    rawTasks.forEach((rawTask, index) => {
+      const task = checkTask(rawTask, index, repairs);
+      if (typeof task === 'string') {
+        rejections.push(task);
+      } else {
+        tasks.push(task);
+      }
+    });
+  }
+
+  return { reminder: { theory: { content, keyPoints }, tasks }, repairs, rejections };
+};
+
+/** A reminder can be shown when it has theory and at least one valid task. */
+export const isUsableReminder = (reminder: ReminderResponse): boolean =>
+  !!reminder.theory.content && reminder.tasks.length > 0;
+
+export const buildRetryPrompt = (prompt: string, problems: string[]): string => `${prompt}
+
+Your previous reply could not be used:
+${problems.map(problem => `- ${problem}`).join('\n')}
+
+Reply again with the complete corrected JSON only.`;
+
+/**
+ * Prompts until the reply has theory and EXPECTED_TASKS valid tasks, re-prompting
+ * with the problems at most REMINDER_ATTEMPTS times in total. Falls back to the
+ * best usable attempt; throws when no attempt was usable. Every repair and
+ * rejection is logged.
+ */
+export const generateCheckedReminder = async (
+  generateText: (prompt: string) => Promise<string>,
+  subject: string,
+  lessons: ReminderLesson[],
+  language: ReminderLanguage,
+  log: (message: string) => void = message => console.warn(message)
+): Promise<ReminderResponse> => {
+  const basePrompt = buildReminderPrompt(subject, lessons, language);
+  let prompt = basePrompt;
+  let best: ReminderResponse | null = null;
+
+  for (let attempt = 1; attempt <= REMINDER_ATTEMPTS; attempt++) {
+    const prefix = `[reminder] ${subject}, attempt ${attempt}:`;
+    let check: ReminderCheck;
+    try {
+      check = checkReminder(parseReminderJson(await generateText(prompt)));
+    } catch (error) {
+      if (!(error instanceof SyntaxError)) throw error;
+      log(`${prefix} rejected reply: not valid JSON (${error.message})`);
+      prompt = buildRetryPrompt(basePrompt, ['the reply was not valid JSON']);
+      continue;
+    }
+
+    check.repairs.forEach(repair => log(`${prefix} repaired ${repair}`));
+    check.rejections.forEach(rejection => log(`${prefix} rejected ${rejection}`));
+
+    const { reminder } = check;
+    if (isUsableReminder(reminder) && (!best || reminder.tasks.length > best.tasks.length)) {
+      best = reminder;
+    }
+    if (isUsableReminder(reminder) && reminder.tasks.length >= EXPECTED_TASKS) {
+      return reminder;
+    }
+    prompt = buildRetryPrompt(basePrompt, [
+      ...check.rejections,
+      ...(reminder.tasks.length < EXPECTED_TASKS ? [`only ${reminder.tasks.length} valid tasks, ${EXPECTED_TASKS} needed`] : []),
+    ]);
+  }
+
+  if (best) return best;
+  throw new Error(`The AI did not return a usable reminder for ${subject} after ${REMINDER_ATTEMPTS} attempts`);
+};
+
+export type GradeCheck = {
+  // Null when the reply can't be used as a grade
+  grade: FreeTextGrade | null;
+  repairs: string[];
+  rejections: string[];
+};
+
+/** Validates a grading reply against the task's rubric; points are clamped to each criterion's maximum. */
+export const checkFreeTextGrade = (raw: unknown, task: FreeTextTask): GradeCheck => {
+  const repairs: string[] = [];
+  const rejections: string[] = [];
+  const value = asObject(raw) || {};
+
+  const rawCriteria = readList(value.criteria);
+  if (!rawCriteria || rawCriteria.length !== task.rubric.length) {
+    rejections.push(`criteria: ${rawCriteria ? rawCriteria.length : 'no'} entries, the rubric has ${task.rubric.length}`);
+    return { grade: null, repairs, rejections };
+  }
+
+  const criteria: FreeTextGrade['criteria'] = [];
+  task.rubric.forEach((item, index) => {
+    const label = `criterion ${index + 1}`;
+    // A bare number is read as the criterion's points
+    const rawCriterion = asObject(rawCriteria[index]);
+    const rawPoints = rawCriterion ? rawCriterion.points : rawCriteria[index];
+    const points = readNumber(rawPoints, 'points', label, repairs);
+    if (points === null) {
+      rejections.push(`${label}: points ${JSON.stringify(rawPoints)} is not a number`);
+      return;
+    }
+    const clamped = Math.min(item.points, Math.max(0, Math.round(points)));
+    if (clamped !== points) repairs.push(`${label}: points ${points} set to ${clamped} (max ${item.points})`);
+    criteria.push({ criterion: item.criterion, points: clamped, maxPoints: item.points, comment: readText(rawCriterion?.comment) });
+  });
+
+  const feedback = readText(value.feedback);
+  if (!feedback) rejections.push('feedback is missing');
+  if (rejections.length > 0) return { grade: null, repairs, rejections };
+
+  return {
+    grade: {
+      criteria,
+      points: criteria.reduce((sum, criterion) => sum + criterion.points, 0),
+      maxPoints: task.rubric.reduce((sum, item) => sum + item.points, 0),
+      feedback,
+    },
+    repairs,
+    rejections,
+  };
+};
+
+/**
+ * Grades a free-text answer against the task's rubric, re-prompting with the
+ * problems at most GRADE_ATTEMPTS times in total. Throws when no reply was usable.
+ */
+export const generateCheckedGrade = async (
+  generateText: (prompt: string) => Promise<string>,
+  task: FreeTextTask,
+  answer: string,
+  language: ReminderLanguage,
+  log: (message: string) => void = message => console.warn(message)
+): Promise<FreeTextGrade> => {
+  const basePrompt = buildGradingPrompt(task, answer, language);
+  let prompt = basePrompt;
+
+  for (let attempt = 1; attempt <= GRADE_ATTEMPTS; attempt++) {
+    const prefix = `[grade] attempt ${attempt}:`;
+    let check: GradeCheck;
+    try {
+      check = checkFreeTextGrade(parseReminderJson(await generateText(prompt)), task);
+    } catch (error) {
+      if (!(error instanceof SyntaxError)) throw error;
+      log(`${prefix} rejected reply: not valid JSON (${error.message})`);
+      prompt = buildRetryPrompt(basePrompt, ['the reply was not valid JSON']);
+      continue;
+    }
+
+    check.repairs.forEach(repair => log(`${prefix} repaired ${repair}`));
+    check.rejections.forEach(rejection => log(`${prefix} rejected ${rejection}`));
+    if (check.grade) return check.grade;
+    prompt = buildRetryPrompt(basePrompt, check.rejections);
+  }
+
+  throw new Error(`The AI could not grade the answer after ${GRADE_ATTEMPTS} attempts`);
+};
@@ -0,0 +1,138 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const HOLIDAYS_KEY_PREFIX = '@revisory_school_holidays_';
+
+// Inclusive date range (YYYY-MM-DD) without lessons
+export type SchoolHoliday = {
+  name: string;
+  start: string;
+  end: string;
+};
+
+export type Clock = {
+  now: () => Date;
+};
+
+/**
+ * Latvian school years 2025/2026 and 2026/2027: school breaks and public holidays
+ * on weekdays. Check against the Cabinet regulation on the school year when adding
+ * a new year; isHolidayCalendarOutdated() flags when that is overdue.
+ */
+export const LATVIAN_SCHOOL_HOLIDAYS: SchoolHoliday[] = [
+  { name: 'Autumn break', start: '2025-10-27', end: '2025-10-31' },
+  { name: 'Proclamation Day', start: '2025-11-18', end: '2025-11-18' },
+  { name: 'Winter break', start: '2025-12-22', end: '2026-01-02' },
+  { name: 'Spring break', start: '2026-03-16', end: '2026-03-20' },
+  { name: 'Good Friday', start: '2026-04-03', end: '2026-04-03' },
+  { name: 'Easter Monday', start: '2026-04-06', end: '2026-04-06' },
+  { name: 'Labour Day', start: '2026-05-01', end: '2026-05-01' },
+  { name: 'Restoration of Independence Day', start: '2026-05-04', end: '2026-05-04' },
+  { name: 'Summer break', start: '2026-06-01', end: '2026-08-31' },
+  { name: 'Autumn break', start: '2026-10-26', end: '2026-10-30' },
+  { name: 'Proclamation Day', start: '2026-11-18', end: '2026-11-18' },
+  { name: 'Winter break', start: '2026-12-21', end: '2027-01-01' },
+  { name: 'Spring break', start: '2027-03-15', end: '2027-03-19' },
+  { name: 'Good Friday', start: '2027-03-26', end: '2027-03-26' },
+  { name: 'Easter Monday', start: '2027-03-29', end: '2027-03-29' },
+  { name: 'Restoration of Independence Day', start: '2027-05-04', end: '2027-05-04' },
+  { name: 'Summer break', start: '2027-05-31', end: '2027-08-31' },
+];
+
+export const systemClock: Clock = { now: () => new Date() };
+
+/** A clock stuck at the given day, e.g. fixedClock('2025-11-07') for a Friday. */
+export const fixedClock = (date: Date | string): Clock => {
+  const fixed = typeof date === 'string' ? parseIsoDate(date) : new Date(date);
+  return { now: () => new Date(fixed) };
+};
+
+let clock: Clock = systemClock;
+
+// Replaces "now" app-wide (dev menu, tests); resetClock() goes back to the real time
+export const setClock = (next: Clock): void => {
+  clock = next;
+};
+
+export const resetClock = (): void => {
+  clock = systemClock;
+};
+
+export const isClockFaked = (): boolean => clock !== systemClock;
+
+export const getToday = (): Date => clock.now();
+
+export const toIsoDate = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const parseIsoDate = (value: string): Date => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+export const getHoliday = (
+  date: Date,
+  holidays: SchoolHoliday[] = LATVIAN_SCHOOL_HOLIDAYS
+): SchoolHoliday | null => {
+  const iso = toIsoDate(date);
+  return holidays.find(holiday => holiday.start <= iso && iso <= holiday.end) || null;
+};
+
+export const isSchoolDay = (date: Date, holidays: SchoolHoliday[] = LATVIAN_SCHOOL_HOLIDAYS): boolean => {
+  const weekday = date.getDay();
+  return weekday !== 0 && weekday !== 6 && !getHoliday(date, holidays);
+};
+
+/** The first school day after `from`, skipping weekends and holidays (Friday → Monday). */
+export const getNextSchoolDay = (
+  from: Date = getToday(),
+  holidays: SchoolHoliday[] = LATVIAN_SCHOOL_HOLIDAYS
+): Date => {
+  let day = addDays(from, 1);
+  // A year is plenty even when the summer break is in between
+  for (let i = 0; i < 366 && !isSchoolDay(day, holidays); i++) {
+    day = addDays(day, 1);
+  }
+  return day;
+};
+
+/** "tomorrow" for the next calendar day, otherwise the weekday ("Monday") or date. */
+export const describeSchoolDay = (date: Date, today: Date = getToday()): string => {
+  const days = Math.round((parseIsoDate(toIsoDate(date)).valueOf() - parseIsoDate(toIsoDate(today)).valueOf()) / 86400000);
+  if (days === 1) return 'tomorrow';
+  if (days > 1 && days < 7) return date.toLocaleDateString('en-US', { weekday: 'long' });
+  return toIsoDate(date);
+};
+
+/** The last day (YYYY-MM-DD) the holiday calendar covers, or null when it is empty. */
+export const getHolidayCalendarEnd = (holidays: SchoolHoliday[] = LATVIAN_SCHOOL_HOLIDAYS): string | null =>
+  holidays.reduce<string | null>((last, holiday) => (!last || holiday.end > last ? holiday.end : last), null);
+
+// Past the last known break every weekday counts as a school day, so the calendar needs the next year
+export const isHolidayCalendarOutdated = (
+  holidays: SchoolHoliday[] = LATVIAN_SCHOOL_HOLIDAYS,
+  today: Date = getToday()
+): boolean => {
+  const end = getHolidayCalendarEnd(holidays);
+  return !!end && toIsoDate(today) > end;
+};
+
+export const getSchoolHolidays = async (username: string): Promise<SchoolHoliday[]> => {
+  try {
+    const raw = await AsyncStorage.getItem(`${HOLIDAYS_KEY_PREFIX}${username.toLowerCase()}`);
+    return raw ? (JSON.parse(raw) as SchoolHoliday[]) : LATVIAN_SCHOOL_HOLIDAYS;
+  } catch (error) {
+    console.error('Error loading school holidays:', error);
+    return LATVIAN_SCHOOL_HOLIDAYS;
+  }
+};
+
+export const saveSchoolHolidays = async (username: string, holidays: SchoolHoliday[]): Promise<void> => {
+  await AsyncStorage.setItem(`${HOLIDAYS_KEY_PREFIX}${username.toLowerCase()}`, JSON.stringify(holidays));
+};
+
+/** The next school day for the user's holiday calendar, as YYYY-MM-DD. */
+export const getNextSchoolDate = async (username: string, from: Date = getToday()): Promise<string> =>
+  toIsoDate(getNextSchoolDay(from, await getSchoolHolidays(username)));
@@ -0,0 +1,174 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getUserData, updateUserStats } from './database';
+import { SchoolHoliday, getSchoolHolidays, getToday, isSchoolDay, parseIsoDate, toIsoDate } from './schoolCalendar';
+import { StreakFreeze, getStreakFreezeInventory, recordStreakFreezeUses } from './streakFreeze';
+
+const ACTIVITY_KEY_PREFIX = '@revisory_activity_';
+const STREAK_KEY_PREFIX = '@revisory_streak_';
+const MAX_STORED_ACTIVITIES = 1000;
+
+export type ActivityKind = 'reminder';
+
+// `date` is the local calendar day the activity happened on, so streak days follow the phone's timezone
+export type ActivityEntry = {
+  date: string;
+  at: string;
+  kind: ActivityKind;
+  subjects?: string[];
+  correctAnswers?: number;
+  totalQuestions?: number;
+};
+
+export type StreakSummary = {
+  current: number;
+  longest: number;
+  lastActiveDate?: string;
+  activeToday: boolean;
+};
+
+export type StreakComputation = StreakSummary & {
+  // Freezes the walk spent on missed school days that weren't covered yet
+  newlyFrozen: { freezeId: string; date: string }[];
+};
+
+const getActivityKey = (username: string) => `${ACTIVITY_KEY_PREFIX}${username.toLowerCase()}`;
+const getStreakKey = (username: string) => `${STREAK_KEY_PREFIX}${username.toLowerCase()}`;
+
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+export const getActivityLog = async (username: string): Promise<ActivityEntry[]> => {
+  try {
+    const raw = await AsyncStorage.getItem(getActivityKey(username));
+    return raw ? (JSON.parse(raw) as ActivityEntry[]) : [];
+  } catch (error) {
+    console.error('Error loading activity log:', error);
+    return [];
+  }
+};
+
+export const recordActivity = async (
+  username: string,
+  entry: Omit<ActivityEntry, 'date' | 'at'>
+): Promise<void> => {
+  const now = getToday();
+  const log = await getActivityLog(username);
+  log.push({ ...entry, date: toIsoDate(now), at: now.toISOString() });
+  await AsyncStorage.setItem(getActivityKey(username), JSON.stringify(log.slice(-MAX_STORED_ACTIVITIES)));
+};
+
+/**
+ * Streaks count days with activity. A missed school day ends the streak unless
+ * a streak freeze covers it; weekends and holidays without activity don't.
+ * Today only counts once active, so the streak isn't lost before the day is over.
+ */
+export const computeStreak = (
+  activeDates: string[],
+  today: Date = getToday(),
+  holidays?: SchoolHoliday[],
+  frozenDates: string[] = [],
+  availableFreezes: StreakFreeze[] = []
+): StreakComputation => {
+  const active = new Set(activeDates);
+  const frozen = new Set(frozenDates);
+  const freezes = [...availableFreezes];
+  const newlyFrozen: StreakComputation['newlyFrozen'] = [];
+  const todayIso = toIsoDate(today);
+  const sorted = Array.from(active).filter(date => date <= todayIso).sort();
+  if (sorted.length === 0) return { current: 0, longest: 0, activeToday: false, newlyFrozen };
+
+  // Walk forward from the first active day, keeping the running streak
+  let longest = 0;
+  let running = 0;
+  for (let day = parseIsoDate(sorted[0]); toIsoDate(day) <= todayIso; day = addDays(day, 1)) {
+    const iso = toIsoDate(day);
+    if (active.has(iso)) {
+      running++;
+    } else if (iso !== todayIso && isSchoolDay(day, holidays) && !frozen.has(iso)) {
+      // A freeze only covers days after it was bought
+      const freezeIndex = running > 0 ? freezes.findIndex(freeze => freeze.purchasedOn <= iso) : -1;
+      if (freezeIndex >= 0) {
+        newlyFrozen.push({ freezeId: freezes[freezeIndex].id, date: iso });
+        freezes.splice(freezeIndex, 1);
+        frozen.add(iso);
+      } else {
+        running = 0;
+      }
+    }
+    longest = Math.max(longest, running);
+  }
+
+  return {
+    current: running,
+    longest,
+    lastActiveDate: sorted[sorted.length - 1],
+    activeToday: active.has(todayIso),
+    newlyFrozen,
+  };
+};
+
+export const getStreakSummary = async (username: string): Promise<StreakSummary> => {
+  try {
+    const raw = await AsyncStorage.getItem(getStreakKey(username));
+    return raw ? (JSON.parse(raw) as StreakSummary) : { current: 0, longest: 0, activeToday: false };
+  } catch (error) {
+    console.error('Error loading streak:', error);
+    return { current: 0, longest: 0, activeToday: false };
+  }
+};
+
+// Last refresh per user; a refresh waits for the previous one so a freeze is never spent twice
+const refreshes = new Map<string, Promise<StreakSummary>>();
+
+/**
+ * Recomputes the streak from the activity log, spending streak freezes on
+ * missed school days, and stores it in UserStats.dailyStreak. Run on launch
+ * (to reset a broken streak) and after activity. Calls for the same user run
+ * one after another.
+ */
+export const refreshStreak = (username: string): Promise<StreakSummary> => {
+  const key = username.toLowerCase();
+  const previous = refreshes.get(key) || Promise.resolve(null);
+  const refresh = previous.catch(() => null).then(() => computeAndStoreStreak(username));
+  refreshes.set(key, refresh);
+  return refresh;
+};
+
+const computeAndStoreStreak = async (username: string): Promise<StreakSummary> => {
+  const [log, holidays, previous, freezes] = await Promise.all([
+    getActivityLog(username),
+    getSchoolHolidays(username),
+    getStreakSummary(username),
+    getStreakFreezeInventory(username),
+  ]);
+  const { newlyFrozen, ...computed } = computeStreak(
+    log.map(entry => entry.date),
+    getToday(),
+    holidays,
+    freezes.uses.map(use => use.date),
+    freezes.available
+  );
+  const usedAt = getToday().toISOString();
+  await recordStreakFreezeUses(username, newlyFrozen.map(use => ({ ...use, usedAt })));
+
+  // The log is capped, so never lose a longest streak that scrolled out of it
+  const summary: StreakSummary = { ...computed, longest: Math.max(computed.longest, previous.longest) };
+  await AsyncStorage.setItem(getStreakKey(username), JSON.stringify(summary));
+
+  const stats = await getUserData(username);
+  if (stats && stats.dailyStreak !== summary.current) {
+    await updateUserStats(username, { ...stats, dailyStreak: summary.current });
+  }
+  return summary;
+};
+
+/** Records a finished reminder session and updates the streak. */
+export const recordReminderSession = async (
+  username: string,
+  subjects: string[],
+  correctAnswers: number,
+  totalQuestions: number
+): Promise<StreakSummary> => {
+  await recordActivity(username, { kind: 'reminder', subjects, correctAnswers, totalQuestions });
+  return refreshStreak(username);
+};
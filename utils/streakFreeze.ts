@@ -0,0 +1,84 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getPurchasedCourses, purchaseCourse } from './database';
+import { getToday, toIsoDate } from './schoolCalendar';
+
+const FREEZE_USES_KEY_PREFIX = '@revisory_streak_freezes_';
+
+// Freezes are bought like courses: every purchase is a unique item id in purchasedCourses
+const FREEZE_ID_PREFIX = 'streak-freeze:';
+
+export const STREAK_FREEZE_PRICE = 30;
+export const MAX_STREAK_FREEZES = 2;
+
+export type StreakFreeze = {
+  id: string;
+  purchasedOn: string;
+};
+
+export type StreakFreezeUse = {
+  freezeId: string;
+  date: string;
+  usedAt: string;
+};
+
+export type StreakFreezeInventory = {
+  available: StreakFreeze[];
+  uses: StreakFreezeUse[];
+};
+
+export type FreezePurchaseResult = {
+  success: boolean;
+  message: string;
+};
+
+const getUsesKey = (username: string) => `${FREEZE_USES_KEY_PREFIX}${username.toLowerCase()}`;
+
+export const isStreakFreezeId = (itemId: string): boolean => itemId.startsWith(FREEZE_ID_PREFIX);
+
+export const getStreakFreezeUses = async (username: string): Promise<StreakFreezeUse[]> => {
+  try {
+    const raw = await AsyncStorage.getItem(getUsesKey(username));
+    return raw ? (JSON.parse(raw) as StreakFreezeUse[]) : [];
+  } catch (error) {
+    console.error('Error loading streak freeze uses:', error);
+    return [];
+  }
+};
+
+/** Unused freezes (oldest first) and every use so far. */
+export const getStreakFreezeInventory = async (username: string): Promise<StreakFreezeInventory> => {
+  const [purchased, uses] = await Promise.all([getPurchasedCourses(username), getStreakFreezeUses(username)]);
+  const used = new Set(uses.map(use => use.freezeId));
+  const available = purchased
+    .filter(itemId => isStreakFreezeId(itemId) && !used.has(itemId))
+    .map(itemId => ({ id: itemId, purchasedOn: itemId.slice(FREEZE_ID_PREFIX.length, FREEZE_ID_PREFIX.length + 10) }))
+    .sort((a, b) => a.purchasedOn.localeCompare(b.purchasedOn));
+  return { available, uses };
+};
+
+export const buyStreakFreeze = async (username: string): Promise<FreezePurchaseResult> => {
+  const { available } = await getStreakFreezeInventory(username);
+  if (available.length >= MAX_STREAK_FREEZES) {
+    return { success: false, message: `You can hold at most ${MAX_STREAK_FREEZES} streak freezes` };
+  }
+  // The local date prefix is when the freeze becomes usable; the time and a random part keep ids unique,
+  // also when the clock is fixed
+  const now = getToday();
+  const suffix = Math.random().toString(36).slice(2, 8);
+  const result = await purchaseCourse(
+    username,
+    `${FREEZE_ID_PREFIX}${toIsoDate(now)}T${now.getTime()}-${suffix}`,
+    STREAK_FREEZE_PRICE
+  );
+  return { success: result.success, message: result.message };
+};
+
+/** Stores new freeze uses; a freeze that is already recorded as used is skipped. */
+export const recordStreakFreezeUses = async (username: string, newUses: StreakFreezeUse[]): Promise<void> => {
+  if (newUses.length === 0) return;
+  const uses = await getStreakFreezeUses(username);
+  const used = new Set(uses.map(use => use.freezeId));
+  const unrecorded = newUses.filter(use => !used.has(use.freezeId));
+  if (unrecorded.length === 0) return;
+  await AsyncStorage.setItem(getUsesKey(username), JSON.stringify([...uses, ...unrecorded]));
+};
@@ -0,0 +1,70 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Lesson } from './database';
+
+const RULES_KEY_PREFIX = '@revisory_subject_filters_';
+
+// Which lessons count as daily tasks; shared by HomePage, App and ReminderScreen
+export type SubjectFilterRules = {
+  // Matched case-insensitively against the subject name ("Projekta darbs" also hides "Projekta darbs 9.a")
+  excludedSubjects: string[];
+  includeWithoutHomework: boolean;
+  minHomeworkLength: number;
+  // When set, homework must mention at least one of these words
+  requiredKeywords: string[];
+  // Homework mentioning any of these (e.g. "nav uzdots") is treated as no homework
+  ignoredKeywords: string[];
+};
+
+export const DEFAULT_FILTER_RULES: SubjectFilterRules = {
+  excludedSubjects: ['Projekta darbs'],
+  includeWithoutHomework: false,
+  minHomeworkLength: 1,
+  requiredKeywords: [],
+  ignoredKeywords: [],
+};
+
+const getRulesKey = (username: string) => `${RULES_KEY_PREFIX}${username.toLowerCase()}`;
+
+const containsAny = (text: string, words: string[]): boolean => {
+  const lower = text.toLowerCase();
+  return words.some(word => word.trim() && lower.includes(word.trim().toLowerCase()));
+};
+
+export const getFilterRules = async (username: string): Promise<SubjectFilterRules> => {
+  try {
+    const raw = await AsyncStorage.getItem(getRulesKey(username));
+    // Merge so rules saved before a new option existed still get its default
+    return raw ? { ...DEFAULT_FILTER_RULES, ...JSON.parse(raw) } : DEFAULT_FILTER_RULES;
+  } catch (error) {
+    console.error('Error loading subject filter rules:', error);
+    return DEFAULT_FILTER_RULES;
+  }
+};
+
+export const saveFilterRules = async (username: string, rules: SubjectFilterRules): Promise<void> => {
+  await AsyncStorage.setItem(getRulesKey(username), JSON.stringify(rules));
+};
+
+export const isSubjectExcluded = (subject: string, rules: SubjectFilterRules): boolean =>
+  !subject.trim() || containsAny(subject, rules.excludedSubjects);
+
+/** Whether the lesson's homework counts under the length and keyword rules. */
+export const hasCountableHomework = (lesson: Lesson, rules: SubjectFilterRules): boolean => {
+  const homework = (lesson.homework || '').trim();
+  if (!homework || homework.length < Math.max(1, rules.minHomeworkLength)) return false;
+  if (containsAny(homework, rules.ignoredKeywords)) return false;
+  if (rules.requiredKeywords.some(word => word.trim()) && !containsAny(homework, rules.requiredKeywords)) {
+    return false;
+  }
+  return true;
+};
+
+export const lessonMatchesRules = (lesson: Lesson, rules: SubjectFilterRules): boolean =>
+  !isSubjectExcluded(lesson.subject, rules) && (rules.includeWithoutHomework || hasCountableHomework(lesson, rules));
+
+export const filterLessons = (lessons: Lesson[], rules: SubjectFilterRules): Lesson[] =>
+  lessons.filter(lesson => lessonMatchesRules(lesson, rules));
+
+/** Unique subjects, in lesson order, that have at least one lesson passing the rules. */
+export const getAllowedSubjects = (lessons: Lesson[], rules: SubjectFilterRules): string[] =>
+  Array.from(new Set(filterLessons(lessons, rules).map(lesson => lesson.subject)));
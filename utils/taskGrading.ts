@@ -0,0 +1,93 @@
+// Grading for every reminder task type; shared by the app and the server like reminderPrompt.ts
+import { FreeTextGrade, NumericTask, ReminderTask } from './reminderPrompt';
+
+// What the student submitted; the type always matches the task it answers
+export type TaskAnswer =
+  | { type: 'multipleChoice'; index: number }
+  | { type: 'trueFalse'; value: boolean }
+  | { type: 'fillBlank'; text: string }
+  | { type: 'ordering'; items: string[] }
+  | { type: 'numeric'; value: number }
+  // Graded by the AI before it is submitted (see gradeFreeTextAnswer)
+  | { type: 'freeText'; text: string; grade: FreeTextGrade };
+
+// Share of the rubric points a free-text answer needs to count as correct
+export const FREE_TEXT_PASS_SCORE = 0.6;
+
+// Slack for floating point error on top of the task's own tolerance, e.g. 0.1 + 0.2
+const FLOAT_EPSILON = 1e-9;
+
+/**
+ * Reads a typed number the way students write it: "2,5", "-3.1e2", "3/4",
+ * "1 000" or "12 m/s" when the task's unit is m/s. Returns null for anything else.
+ */
+export const parseNumber = (text: string, unit?: string): number | null => {
+  let cleaned = text.trim().replace(/−/g, '-');
+  if (unit && cleaned.toLowerCase().endsWith(unit.toLowerCase())) {
+    cleaned = cleaned.slice(0, -unit.length);
+  }
+  cleaned = cleaned.replace(/\s/g, '').replace(',', '.');
+
+  const fraction = /^([-+]?\d+(?:\.\d+)?)\/(\d+(?:\.\d+)?)$/.exec(cleaned);
+  if (fraction) {
+    const denominator = Number(fraction[2]);
+    return denominator === 0 ? null : Number(fraction[1]) / denominator;
+  }
+  return /^[-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?$/i.test(cleaned) ? Number(cleaned) : null;
+};
+
+// Case, spacing, quotes and a trailing full stop don't make an answer wrong
+export const normalizeAnswerText = (text: string): string =>
+  text
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/^["'„“«]+/, '')
+    .replace(/["'”».!?]+$/, '')
+    .trim();
+
+export const isWithinTolerance = (task: NumericTask, value: number): boolean =>
+  Math.abs(value - task.answer) <= task.tolerance + FLOAT_EPSILON * Math.max(1, Math.abs(task.answer));
+
+export const gradeTask = (task: ReminderTask, answer: TaskAnswer): boolean => {
+  switch (task.type) {
+    case 'multipleChoice':
+      return answer.type === 'multipleChoice' && answer.index === task.correctAnswer;
+    case 'trueFalse':
+      return answer.type === 'trueFalse' && answer.value === task.correctAnswer;
+    case 'fillBlank': {
+      if (answer.type !== 'fillBlank') return false;
+      const text = normalizeAnswerText(answer.text);
+      return !!text && task.acceptedAnswers.some(accepted => normalizeAnswerText(accepted) === text);
+    }
+    case 'ordering':
+      return answer.type === 'ordering' &&
+        answer.items.length === task.items.length &&
+        answer.items.every((item, index) => item === task.items[index]);
+    case 'numeric':
+      return answer.type === 'numeric' && isWithinTolerance(task, answer.value);
+    case 'freeText':
+      return getTaskScore(task, answer) >= FREE_TEXT_PASS_SCORE;
+  }
+};
+
+/** Credit for an answer from 0 to 1: partial for free text, all or nothing for the other types. */
+export const getTaskScore = (task: ReminderTask, answer: TaskAnswer): number => {
+  if (task.type === 'freeText') {
+    return answer.type === 'freeText' && answer.grade.maxPoints > 0 ? answer.grade.points / answer.grade.maxPoints : 0;
+  }
+  return gradeTask(task, answer) ? 1 : 0;
+};
+
+/** Shuffles ordering items, never leaving them already in the correct order. */
+export const shuffleItems = (items: string[]): string[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  if (shuffled.length > 1 && shuffled.every((item, index) => item === items[index])) {
+    shuffled.push(shuffled.shift() as string);
+  }
+  return shuffled;
+};